@@ -0,0 +1,22 @@
+-- Audit log of fetcher runs.
+-- One row per pipeline run: what was requested, how extraction went,
+-- and what ended up in price_data.
+
+CREATE TABLE IF NOT EXISTS ingestion_run (
+    id                SERIAL PRIMARY KEY,
+    source_id         INTEGER REFERENCES data_source(id),   -- Set once the source is registered
+    dataset_url       TEXT NOT NULL,
+    query_config      JSONB,                  -- QueryConfig used for extraction
+    status            VARCHAR(10) NOT NULL DEFAULT 'running',  -- running | complete | partial | failed
+    started_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at       TIMESTAMPTZ,
+    batches_attempted INTEGER,
+    batches_succeeded INTEGER,
+    records_inserted  INTEGER,
+    records_updated   INTEGER,
+    records_unchanged INTEGER,
+    skipped           INTEGER,                -- Rows skipped by the transformer
+    errors            JSONB NOT NULL DEFAULT '[]'  -- Array of error messages
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_run_started ON ingestion_run(started_at DESC);
@@ -0,0 +1,5 @@
+-- Track the dataset's own "updated" timestamp (from PxWeb metadata) as of
+-- the last complete run, so incremental fetches can detect revisions.
+
+ALTER TABLE data_source
+    ADD COLUMN IF NOT EXISTS source_updated TIMESTAMPTZ;
@@ -0,0 +1,17 @@
+-- Revision history for price_data.
+-- When stat.fi republishes a figure with a different value, the old and new
+-- values are recorded here before price_data is overwritten.
+
+CREATE TABLE IF NOT EXISTS price_revision (
+    id                    SERIAL PRIMARY KEY,
+    price_data_id         INTEGER NOT NULL REFERENCES price_data(id) ON DELETE CASCADE,
+    old_price_per_sqm     NUMERIC(10,2),
+    new_price_per_sqm     NUMERIC(10,2),
+    old_transaction_count INTEGER,
+    new_transaction_count INTEGER,
+    ingestion_run_id      INTEGER REFERENCES ingestion_run(id),  -- Run that detected the change
+    revised_at            TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_revision_price_data ON price_revision(price_data_id);
+CREATE INDEX IF NOT EXISTS idx_price_revision_revised_at ON price_revision(revised_at DESC);
@@ -0,0 +1,9 @@
+-- Period granularity for price_data.
+-- The date column holds the first day of the period; this column says how
+-- long that period is, so yearly and quarterly figures can be told apart.
+
+ALTER TABLE price_data
+    ADD COLUMN IF NOT EXISTS period_granularity VARCHAR(10) NOT NULL DEFAULT 'year'
+        CHECK (period_granularity IN ('year', 'quarter', 'month'));
+
+CREATE INDEX IF NOT EXISTS idx_price_granularity_date ON price_data(period_granularity, date);
@@ -0,0 +1,9 @@
+-- What a price_data row measures: 'sale' prices (€/m²) or monthly 'rent'
+-- (€/m²/month). Rents come from their own source, so the unique key on
+-- (postal_code, building_type, date, source_id) still holds.
+
+ALTER TABLE price_data
+    ADD COLUMN IF NOT EXISTS metric VARCHAR(10) NOT NULL DEFAULT 'sale'
+        CHECK (metric IN ('sale', 'rent'));
+
+CREATE INDEX IF NOT EXISTS idx_price_metric_date ON price_data(metric, date);
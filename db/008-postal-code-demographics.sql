@@ -0,0 +1,19 @@
+-- Paavo postal code statistics (Statistics Finland), one row per postal
+-- code and statistical year. Used to relate prices to incomes.
+
+CREATE TABLE IF NOT EXISTS postal_code_demographics (
+    postal_code             VARCHAR(5) NOT NULL REFERENCES postal_code(code),
+    year                    INTEGER NOT NULL,
+    population              INTEGER,
+    average_age             NUMERIC(4,1),
+    population_0_14         INTEGER,
+    population_65_plus      INTEGER,
+    median_household_income INTEGER,           -- €/year
+    dwellings               INTEGER,
+    average_dwelling_size   NUMERIC(6,1),      -- m²
+    source_id               INTEGER NOT NULL REFERENCES data_source(id),
+
+    PRIMARY KEY (postal_code, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_demographics_year ON postal_code_demographics(year);
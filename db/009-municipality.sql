@@ -0,0 +1,13 @@
+-- Municipalities and the region (maakunta) each belongs to, from the
+-- Statistics Finland classification service. postal_code.municipality
+-- holds the municipality code.
+
+CREATE TABLE IF NOT EXISTS municipality (
+    code        VARCHAR(3) PRIMARY KEY,      -- '091'
+    name        TEXT NOT NULL,               -- 'Helsinki'
+    region_code VARCHAR(2) NOT NULL,         -- '01'
+    region_name TEXT NOT NULL                -- 'Uusimaa'
+);
+
+CREATE INDEX IF NOT EXISTS idx_municipality_region ON municipality(region_code);
+CREATE INDEX IF NOT EXISTS idx_postal_code_municipality ON postal_code(municipality);
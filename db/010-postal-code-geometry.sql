@@ -0,0 +1,9 @@
+-- Simplified postal code geometries, one row per detail level. Computed at
+-- ingest time from postal_code.geometry, which keeps the full resolution.
+
+CREATE TABLE IF NOT EXISTS postal_code_geometry (
+    postal_code VARCHAR(5) NOT NULL REFERENCES postal_code(code),
+    detail      VARCHAR(10) NOT NULL CHECK (detail IN ('low', 'medium', 'high')),
+    geometry    JSONB NOT NULL,               -- GeoJSON MultiPolygon (WGS84), quantized
+    PRIMARY KEY (postal_code, detail)
+);
@@ -0,0 +1,21 @@
+-- Postal code boundaries per vintage (the statistical year of the WFS
+-- layer they came from), so old prices can be drawn on the areas that
+-- existed at the time. postal_code.geometry keeps the latest vintage.
+
+CREATE TABLE IF NOT EXISTS postal_code_boundary (
+    postal_code  VARCHAR(5) NOT NULL REFERENCES postal_code(code),
+    vintage      INTEGER NOT NULL,           -- e.g. 2024 for pno_tilasto_2024
+    name         TEXT NOT NULL,
+    municipality VARCHAR(3),
+    geometry     JSONB NOT NULL,             -- GeoJSON MultiPolygon (WGS84)
+    PRIMARY KEY (postal_code, vintage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_boundary_vintage ON postal_code_boundary(vintage);
+
+-- Simplified geometries are now kept per vintage too. Rows stored so far
+-- were computed from the 2024 layer.
+ALTER TABLE postal_code_geometry ADD COLUMN IF NOT EXISTS vintage INTEGER NOT NULL DEFAULT 2024;
+ALTER TABLE postal_code_geometry ALTER COLUMN vintage DROP DEFAULT;
+ALTER TABLE postal_code_geometry DROP CONSTRAINT IF EXISTS postal_code_geometry_pkey;
+ALTER TABLE postal_code_geometry ADD PRIMARY KEY (postal_code, vintage, detail);
@@ -0,0 +1,9 @@
+-- Postal code areas that share boundary, computed from postal_code.geometry
+-- by the geometries command. Each pair is stored in both directions.
+
+CREATE TABLE IF NOT EXISTS postal_code_adjacency (
+    postal_code       VARCHAR(5) NOT NULL REFERENCES postal_code(code),
+    neighbour         VARCHAR(5) NOT NULL REFERENCES postal_code(code),
+    shared_boundary_m INTEGER NOT NULL,      -- Approximate length in metres
+    PRIMARY KEY (postal_code, neighbour)
+);
@@ -0,0 +1,23 @@
+-- Archive of raw PX-Web responses, one row per extracted batch, so runs can
+-- be re-transformed later (fetch --replay) and what stat.fi returned on a
+-- given day can be inspected.
+
+CREATE TABLE IF NOT EXISTS raw_response (
+    id               SERIAL PRIMARY KEY,
+    dataset          TEXT NOT NULL,           -- Table id, e.g. 'statfin_ashi_pxt_13mu'
+    query_hash       CHAR(64) NOT NULL,       -- SHA-256 of the query JSON
+    query            JSONB NOT NULL,          -- PxWebQuery that was posted
+    fetched_at       TIMESTAMPTZ NOT NULL,
+    format           VARCHAR(20) NOT NULL,
+    payload          TEXT NOT NULL,           -- Response body exactly as received
+    metadata         JSONB NOT NULL,          -- DatasetMetadata at fetch time
+    ingestion_run_id INTEGER REFERENCES ingestion_run(id),
+    UNIQUE (dataset, query_hash, fetched_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_raw_response_dataset_fetched ON raw_response(dataset, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_raw_response_run ON raw_response(ingestion_run_id);
+
+-- A replay run points at the run whose archived responses it re-processed
+ALTER TABLE ingestion_run
+    ADD COLUMN IF NOT EXISTS replay_of INTEGER REFERENCES ingestion_run(id);
@@ -0,0 +1,11 @@
+-- Why a price is missing or special, from the status symbol stat.fi gave
+-- the cell ('...' confidential, '.' not applicable, ...). NULL for plain
+-- values. See QualityFlag in src/model/Models.ts.
+
+ALTER TABLE price_data
+    ADD COLUMN IF NOT EXISTS quality_flag VARCHAR(20)
+        CHECK (quality_flag IN ('not_applicable', 'not_available', 'confidential', 'nil', 'less_than_half'));
+
+ALTER TABLE price_revision
+    ADD COLUMN IF NOT EXISTS old_quality_flag VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS new_quality_flag VARCHAR(20);
@@ -0,0 +1,6 @@
+-- Data quality findings of a run's validation stage (ValidationReport in
+-- src/model/Models.ts). A run whose validation found errors stored nothing
+-- and is marked failed.
+
+ALTER TABLE ingestion_run
+    ADD COLUMN IF NOT EXISTS validation_report JSONB;
@@ -0,0 +1,185 @@
+/**
+ * Robust z-score above which a price counts as anomalous. 3.5 is the usual
+ * cut-off for the modified z-score (Iglewicz and Hoaglin).
+ */
+export const ANOMALY_THRESHOLD = 3.5;
+
+/** Year-over-year changes a postal code needs before its history is judged */
+export const MIN_HISTORY = 4;
+
+/** Years of history the history score looks back over */
+export const HISTORY_YEARS = 10;
+
+/** Other priced areas a municipality needs before its distribution is judged */
+export const MIN_PEERS = 5;
+
+/** Scales a median absolute deviation to a standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+
+/** Same for the mean absolute deviation, used when more than half the values are equal */
+const MEAN_AD_SCALE = 1.2533;
+
+export interface PricePoint {
+    postalCode: string;
+    municipality: string | null;
+    date: string;               // YYYY-MM-DD
+    pricePerSqm: number;
+    transactionCount: number | null;
+}
+
+export interface AnomalyScore {
+    postalCode: string;
+    municipality: string | null;
+    date: string;
+    pricePerSqm: number;
+    transactionCount: number | null;
+    /** Year-over-year change against the area's own earlier changes */
+    historyScore: number | null;
+    /** Price against the other areas of the municipality on the same date */
+    municipalityScore: number | null;
+    anomaly: boolean;
+}
+
+interface Weighted {
+    value: number;
+    weight: number;
+}
+
+/**
+ * Scores the prices of one date with two robust z-scores, both on log
+ * prices so they read as relative differences:
+ *
+ * - history: the change from a year earlier against the area's other
+ *   year-over-year changes, so a steady trend is not an anomaly;
+ * - municipality: the price against the other areas of its municipality.
+ *
+ * Medians and deviations are weighted by transaction count (a pair of
+ * years by its thinner year), so areas with a handful of sales don't set
+ * the baseline they are judged against. Prices without a count weigh as
+ * one sale. A score is null when there is too little to compare with.
+ * History older than HISTORY_YEARS is ignored.
+ */
+export function detectAnomalies(
+    points: PricePoint[],
+    date: string,
+    threshold: number = ANOMALY_THRESHOLD
+): Map<string, AnomalyScore> {
+    const earliest = shiftYears(date, -HISTORY_YEARS);
+    const byCode = new Map<string, Map<string, PricePoint>>();
+    for (const p of points) {
+        if (p.pricePerSqm <= 0 || p.date < earliest || p.date > date) continue;
+        const dates = byCode.get(p.postalCode) ?? new Map<string, PricePoint>();
+        dates.set(p.date, p);
+        byCode.set(p.postalCode, dates);
+    }
+
+    const current = [...byCode.values()].flatMap((dates) => dates.get(date) ?? []);
+    const byMunicipality = new Map<string, PricePoint[]>();
+    for (const p of current) {
+        if (p.municipality === null) continue;
+        const list = byMunicipality.get(p.municipality) ?? [];
+        list.push(p);
+        byMunicipality.set(p.municipality, list);
+    }
+    const result = new Map<string, AnomalyScore>();
+
+    for (const point of current) {
+        const changes = yearOverYearChanges(byCode.get(point.postalCode)!);
+        const own = changes.get(date);
+        changes.delete(date);
+        const historyScore = own !== undefined && changes.size >= MIN_HISTORY
+            ? robustZ(own.value, [...changes.values()])
+            : null;
+
+        const peers = (point.municipality !== null ? byMunicipality.get(point.municipality)! : [])
+            .filter((p) => p.postalCode !== point.postalCode)
+            .map((p) => ({ value: Math.log(p.pricePerSqm), weight: weightOf(p) }));
+        const municipalityScore = peers.length >= MIN_PEERS
+            ? robustZ(Math.log(point.pricePerSqm), peers)
+            : null;
+
+        result.set(point.postalCode, {
+            ...point,
+            historyScore: round(historyScore),
+            municipalityScore: round(municipalityScore),
+            anomaly: isAnomaly({ historyScore, municipalityScore }, threshold),
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Whether either score is beyond the threshold.
+ */
+export function isAnomaly(
+    scores: Pick<AnomalyScore, 'historyScore' | 'municipalityScore'>,
+    threshold: number = ANOMALY_THRESHOLD
+): boolean {
+    return Math.abs(scores.historyScore ?? 0) > threshold || Math.abs(scores.municipalityScore ?? 0) > threshold;
+}
+
+/**
+ * The same period `years` years later (earlier when negative), as YYYY-MM-DD.
+ */
+export function shiftYears(date: string, years: number): string {
+    return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+}
+
+/**
+ * Log change from the same date a year earlier, keyed by the later date.
+ */
+function yearOverYearChanges(dates: Map<string, PricePoint>): Map<string, Weighted> {
+    const changes = new Map<string, Weighted>();
+    for (const [date, point] of dates) {
+        const previous = dates.get(shiftYears(date, -1));
+        if (!previous) continue;
+        changes.set(date, {
+            value: Math.log(point.pricePerSqm / previous.pricePerSqm),
+            weight: Math.min(weightOf(point), weightOf(previous)),
+        });
+    }
+    return changes;
+}
+
+/**
+ * Modified z-score of a value against a weighted sample: distance from the
+ * weighted median in scaled median absolute deviations. Null if the sample
+ * has no spread at all.
+ */
+export function robustZ(value: number, sample: Weighted[]): number | null {
+    const median = weightedMedian(sample);
+    const deviations = sample.map((s) => ({ value: Math.abs(s.value - median), weight: s.weight }));
+
+    const mad = weightedMedian(deviations);
+    if (mad > 0) return (value - median) / (MAD_SCALE * mad);
+
+    const totalWeight = deviations.reduce((sum, d) => sum + d.weight, 0);
+    const meanAd = deviations.reduce((sum, d) => sum + d.value * d.weight, 0) / totalWeight;
+    return meanAd > 0 ? (value - median) / (MEAN_AD_SCALE * meanAd) : null;
+}
+
+/**
+ * The value at which half the total weight lies on either side.
+ */
+export function weightedMedian(sample: Weighted[]): number {
+    const sorted = [...sample].sort((a, b) => a.value - b.value);
+    const half = sorted.reduce((sum, s) => sum + s.weight, 0) / 2;
+
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+        cumulative += sorted[i]!.weight;
+        if (cumulative > half) return sorted[i]!.value;
+        // Exactly half: midway between this value and the next, like an even-sized median
+        if (cumulative === half) return (sorted[i]!.value + sorted[i + 1]!.value) / 2;
+    }
+    return NaN;  // Empty sample
+}
+
+function weightOf(p: PricePoint): number {
+    return (p.transactionCount ?? 0) > 0 ? p.transactionCount! : 1;
+}
+
+function round(score: number | null): number | null {
+    return score === null ? null : Math.round(score * 100) / 100;
+}
@@ -0,0 +1,132 @@
+export type ClassificationMethod = 'quantile' | 'equal' | 'jenks';
+
+export const CLASSIFICATION_METHODS: readonly ClassificationMethod[] = ['quantile', 'equal', 'jenks'];
+
+/**
+ * Computes class breaks for a choropleth legend.
+ *
+ * Returns `classes + 1` ascending bounds [min, b1, ..., max]; class i
+ * covers bounds[i]..bounds[i + 1]. Quantile and Jenks return fewer classes
+ * when there are fewer distinct values than classes, or ties in the data.
+ * Returns [] for no values.
+ */
+export function classBreaks(values: number[], classes: number, method: ClassificationMethod): number[] {
+    if (!Number.isInteger(classes) || classes < 1) {
+        throw new Error(`Invalid class count: ${classes}`);
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    if (sorted.length === 0) return [];
+
+    // Quantile and Jenks classes are made of values, so there can't be more of them than distinct values
+    const k = Math.min(classes, new Set(sorted).size);
+
+    switch (method) {
+        case 'quantile':
+            return quantileBreaks(sorted, k);
+        case 'equal':
+            return equalIntervalBreaks(sorted, classes);
+        case 'jenks':
+            return jenksBreaks(sorted, k);
+    }
+}
+
+/**
+ * Index of the class a value falls in: the last class whose lower bound
+ * is ≤ value, so each inner bound belongs to the class above it.
+ */
+export function classIndex(value: number, breaks: number[]): number {
+    for (let i = breaks.length - 2; i > 0; i--) {
+        if (value >= breaks[i]!) return i;
+    }
+    return 0;
+}
+
+/**
+ * Each class holds (roughly) the same number of values.
+ */
+function quantileBreaks(sorted: number[], k: number): number[] {
+    const n = sorted.length;
+    const breaks = [sorted[0]!];
+    for (let i = 1; i < k; i++) {
+        breaks.push(sorted[Math.floor((i * n) / k)]!);
+    }
+    breaks.push(sorted[n - 1]!);
+    return dedupe(breaks);
+}
+
+/**
+ * Classes of equal width between the minimum and maximum.
+ */
+function equalIntervalBreaks(sorted: number[], k: number): number[] {
+    const min = sorted[0]!;
+    const max = sorted[sorted.length - 1]!;
+    const width = (max - min) / k;
+    const breaks = [min];
+    for (let i = 1; i < k; i++) {
+        breaks.push(min + i * width);
+    }
+    breaks.push(max);
+    return breaks;
+}
+
+/**
+ * Jenks natural breaks (Fisher's exact dynamic programme): minimizes the
+ * sum of squared deviations from the class means. O(k·n²), which is fine
+ * for a few thousand postal codes.
+ */
+function jenksBreaks(sorted: number[], k: number): number[] {
+    const n = sorted.length;
+
+    // Prefix sums give the squared deviation of any run sorted[i..j] in O(1)
+    const sum = [0];
+    const sumSq = [0];
+    for (const v of sorted) {
+        sum.push(sum[sum.length - 1]! + v);
+        sumSq.push(sumSq[sumSq.length - 1]! + v * v);
+    }
+    const cost = (i: number, j: number): number => {
+        const s = sum[j + 1]! - sum[i]!;
+        return sumSq[j + 1]! - sumSq[i]! - (s * s) / (j - i + 1);
+    };
+
+    // best[c][j]: least cost of splitting sorted[0..j] into c + 1 classes;
+    // start[c][j]: first index of the last of those classes
+    const best: number[][] = [Array.from({ length: n }, (_, j) => cost(0, j))];
+    const start: number[][] = [new Array(n).fill(0)];
+
+    for (let c = 1; c < k; c++) {
+        const row = new Array<number>(n).fill(Infinity);
+        const from = new Array<number>(n).fill(0);
+        for (let j = c; j < n; j++) {
+            for (let i = c; i <= j; i++) {
+                const total = best[c - 1]![i - 1]! + cost(i, j);
+                if (total < row[j]!) {
+                    row[j] = total;
+                    from[j] = i;
+                }
+            }
+        }
+        best.push(row);
+        start.push(from);
+    }
+
+    const lowerIndices: number[] = [];
+    let j = n - 1;
+    for (let c = k - 1; c > 0; c--) {
+        const i = start[c]![j]!;
+        lowerIndices.unshift(i);
+        j = i - 1;
+    }
+
+    return dedupe([sorted[0]!, ...lowerIndices.map((i) => sorted[i]!), sorted[n - 1]!]);
+}
+
+/**
+ * Drops repeated inner bounds (ties in the data), keeping the first and
+ * last bound so a single-valued top class is preserved.
+ */
+function dedupe(breaks: number[]): number[] {
+    const inner = breaks.slice(0, -1).filter((b, i) => i === 0 || b !== breaks[i - 1]);
+    return [...inner, breaks[breaks.length - 1]!];
+}
@@ -0,0 +1,59 @@
+/**
+ * Areas with fewer transactions than this get a smoothed estimate even
+ * when stat.fi published a price, since a handful of sales is noisy.
+ */
+export const LOW_TRANSACTION_COUNT = 5;
+
+export interface PriceObservation {
+    pricePerSqm: number | null;
+    transactionCount: number | null;
+}
+
+export interface ImputedPrice {
+    pricePerSqm: number;
+    neighbours: number;  // Neighbouring areas the estimate draws on
+}
+
+/**
+ * Estimates prices for areas without a published price, or with fewer than
+ * `lowCount` transactions, as the transaction-weighted average of their
+ * neighbours' prices. An area's own low-count price is included with its
+ * own weight. Prices without a transaction count weigh as one sale.
+ *
+ * Areas without any priced neighbour get no estimate.
+ */
+export function imputePrices(
+    codes: Iterable<string>,
+    observations: Map<string, PriceObservation>,
+    neighbours: Map<string, string[]>,
+    lowCount: number = LOW_TRANSACTION_COUNT
+): Map<string, ImputedPrice> {
+    const weightOf = (o: PriceObservation) => (o.transactionCount ?? 0) > 0 ? o.transactionCount! : 1;
+    const result = new Map<string, ImputedPrice>();
+
+    for (const code of codes) {
+        const own = observations.get(code);
+        if (own && own.pricePerSqm !== null && (own.transactionCount ?? 0) >= lowCount) continue;
+
+        let sum = 0;
+        let weight = 0;
+        let count = 0;
+        for (const neighbour of neighbours.get(code) ?? []) {
+            const o = observations.get(neighbour);
+            if (!o || o.pricePerSqm === null) continue;
+            sum += o.pricePerSqm * weightOf(o);
+            weight += weightOf(o);
+            count++;
+        }
+        if (count === 0) continue;
+
+        if (own && own.pricePerSqm !== null) {
+            sum += own.pricePerSqm * weightOf(own);
+            weight += weightOf(own);
+        }
+
+        result.set(code, { pricePerSqm: Math.round((sum / weight) * 100) / 100, neighbours: count });
+    }
+
+    return result;
+}
@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'bun:test';
+import { detectAnomalies, isAnomaly, robustZ, weightedMedian, HISTORY_YEARS } from '../AnomalyDetection.ts';
+import type { PricePoint } from '../AnomalyDetection.ts';
+
+function point(postalCode: string, year: number, pricePerSqm: number, transactionCount: number | null = 20, municipality: string | null = '091'): PricePoint {
+    return { postalCode, municipality, date: `${year}-01-01`, pricePerSqm, transactionCount };
+}
+
+/** Steady growth of about 3 % a year, with a little noise */
+function history(postalCode: string, base: number, municipality: string = '091'): PricePoint[] {
+    const noise = [0, 0.01, -0.01, 0.005, -0.005, 0.01];
+    return noise.map((n, i) => point(postalCode, 2018 + i, Math.round(base * Math.pow(1.03 + n, i)), 20, municipality));
+}
+
+describe('weightedMedian', () => {
+    test('equal weights give the ordinary median', () => {
+        expect(weightedMedian([3, 1, 2].map((value) => ({ value, weight: 1 })))).toBe(2);
+        expect(weightedMedian([4, 1, 2, 3].map((value) => ({ value, weight: 1 })))).toBe(2.5);
+    });
+
+    test('a heavy value pulls the median to itself', () => {
+        expect(weightedMedian([{ value: 1, weight: 1 }, { value: 2, weight: 1 }, { value: 10, weight: 5 }])).toBe(10);
+    });
+});
+
+describe('robustZ', () => {
+    test('is insensitive to an outlier in the sample', () => {
+        const sample = [10, 11, 12, 13, 14].map((value) => ({ value, weight: 1 }));
+        const withOutlier = [...sample, { value: 1000, weight: 1 }];
+
+        expect(robustZ(20, sample)).toBeCloseTo(5.4, 1);  // (20 - 12) / (1.4826 × 1)
+        expect(robustZ(20, withOutlier)).toBeCloseTo(3.37, 1);  // A standard z-score would put 20 below the mean
+    });
+
+    test('is null for a sample without spread', () => {
+        expect(robustZ(5, [1, 1, 1].map((value) => ({ value, weight: 1 })))).toBeNull();
+    });
+});
+
+describe('detectAnomalies', () => {
+    test('a steady history and a typical level are not anomalies', () => {
+        const points = ['00100', '00120', '00130', '00140', '00150', '00160'].flatMap((code, i) => history(code, 5000 + i * 100));
+
+        const scores = detectAnomalies(points, '2023-01-01');
+
+        expect(scores.size).toBe(6);
+        expect([...scores.values()].some((s) => s.anomaly)).toBe(false);
+        expect(scores.get('00100')!.historyScore).not.toBeNull();
+        expect(scores.get('00100')!.municipalityScore).not.toBeNull();
+    });
+
+    test('a jump against the area\'s own history is flagged', () => {
+        const points = [...history('00100', 5000).slice(0, 5), point('00100', 2023, 9000, 3)];
+
+        const score = detectAnomalies(points, '2023-01-01').get('00100')!;
+
+        expect(score.anomaly).toBe(true);
+        expect(score.historyScore!).toBeGreaterThan(3.5);
+        expect(score.municipalityScore).toBeNull();  // No peers in the municipality
+    });
+
+    test('a price far from the municipality is flagged', () => {
+        const peers = ['00120', '00130', '00140', '00150', '00160'].map((code, i) => point(code, 2023, 5000 + i * 200));
+
+        const scores = detectAnomalies([...peers, point('00100', 2023, 15000, 2)], '2023-01-01');
+
+        expect(scores.get('00100')!.anomaly).toBe(true);
+        expect(scores.get('00100')!.municipalityScore!).toBeGreaterThan(3.5);
+        expect(scores.get('00120')!.anomaly).toBe(false);
+    });
+
+    test('thin areas do not set the municipality baseline', () => {
+        // Two low-count areas far above the rest barely move the weighted median
+        const peers = [
+            ...['00120', '00130', '00140', '00150'].map((code, i) => point(code, 2023, 5000 + i * 100, 50)),
+            point('00160', 2023, 12000, 1),
+            point('00170', 2023, 12500, 1),
+        ];
+
+        const score = detectAnomalies([...peers, point('00100', 2023, 5150, 40)], '2023-01-01').get('00100')!;
+
+        expect(Math.abs(score.municipalityScore!)).toBeLessThan(1);
+    });
+
+    test('areas of other municipalities and other dates are not peers', () => {
+        const peers = ['00120', '00130', '00140', '00150', '00160'].map((code) => point(code, 2023, 5000, 20, '049'));
+
+        const scores = detectAnomalies([...peers, point('00100', 2023, 15000), point('00200', 2022, 15000)], '2023-01-01');
+
+        expect(scores.get('00100')!.municipalityScore).toBeNull();
+        expect(scores.has('00200')).toBe(false);
+    });
+
+    test('history older than HISTORY_YEARS is ignored', () => {
+        const recent = history('00100', 5000);
+        const old = history('00100', 5000).map((p) => ({ ...p, date: p.date.replace(/^\d{4}/, (y) => String(Number(y) - HISTORY_YEARS - 6)) }));
+
+        expect(detectAnomalies(old, '2023-01-01').size).toBe(0);
+        expect(detectAnomalies([...old, ...recent.slice(3)], '2023-01-01').get('00100')!.historyScore).toBeNull();
+    });
+});
+
+describe('isAnomaly', () => {
+    test('either score beyond the threshold flags', () => {
+        expect(isAnomaly({ historyScore: 4, municipalityScore: null })).toBe(true);
+        expect(isAnomaly({ historyScore: null, municipalityScore: -4 })).toBe(true);
+        expect(isAnomaly({ historyScore: 4, municipalityScore: null }, 5)).toBe(false);
+        expect(isAnomaly({ historyScore: null, municipalityScore: null })).toBe(false);
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, test, expect } from 'bun:test';
+import { classBreaks, classIndex } from '../ClassBreaks.ts';
+
+describe('classBreaks', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8];
+
+    test('quantile puts the same number of values in each class', () => {
+        expect(classBreaks(values, 4, 'quantile')).toEqual([1, 3, 5, 7, 8]);
+    });
+
+    test('equal interval splits the range evenly', () => {
+        expect(classBreaks([0, 3, 10], 5, 'equal')).toEqual([0, 2, 4, 6, 8, 10]);
+    });
+
+    test('jenks finds natural gaps', () => {
+        const clustered = [1, 2, 3, 10, 11, 12, 30, 31];
+        expect(classBreaks(clustered, 3, 'jenks')).toEqual([1, 10, 30, 31]);
+    });
+
+    test('caps the class count at the number of distinct values', () => {
+        expect(classBreaks([5, 5, 7], 5, 'jenks')).toEqual([5, 7, 7]);
+        expect(classBreaks([5, 5, 5], 3, 'quantile')).toEqual([5, 5]);
+    });
+
+    test('no values gives no breaks', () => {
+        expect(classBreaks([], 5, 'quantile')).toEqual([]);
+    });
+});
+
+describe('classIndex', () => {
+    test('inner bounds belong to the class above', () => {
+        const breaks = [1, 3, 5, 8];
+        expect(classIndex(1, breaks)).toBe(0);
+        expect(classIndex(2.9, breaks)).toBe(0);
+        expect(classIndex(3, breaks)).toBe(1);
+        expect(classIndex(8, breaks)).toBe(2);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'bun:test';
+import { imputePrices } from '../SpatialSmoothing.ts';
+import type { PriceObservation } from '../SpatialSmoothing.ts';
+
+describe('imputePrices', () => {
+    const neighbours = new Map([
+        ['A', ['B', 'C']],
+        ['B', ['A', 'C']],
+        ['C', ['A', 'B', 'D']],
+        ['D', ['C']],
+        ['E', []],
+    ]);
+
+    test('fills a missing price from transaction-weighted neighbours', () => {
+        const observations = new Map<string, PriceObservation>([
+            ['B', { pricePerSqm: 4000, transactionCount: 30 }],
+            ['C', { pricePerSqm: 6000, transactionCount: 10 }],
+        ]);
+
+        expect(imputePrices(['A'], observations, neighbours).get('A')).toEqual({ pricePerSqm: 4500, neighbours: 2 });
+    });
+
+    test('blends a low-count price with its neighbours and leaves well-observed areas alone', () => {
+        const observations = new Map<string, PriceObservation>([
+            ['C', { pricePerSqm: 6000, transactionCount: 2 }],
+            ['D', { pricePerSqm: 3000, transactionCount: 8 }],
+        ]);
+
+        const result = imputePrices(['C', 'D'], observations, neighbours);
+        expect(result.get('C')).toEqual({ pricePerSqm: 3600, neighbours: 1 });
+        expect(result.has('D')).toBe(false);
+    });
+
+    test('no estimate without priced neighbours', () => {
+        expect(imputePrices(['E'], new Map(), neighbours).size).toBe(0);
+    });
+});
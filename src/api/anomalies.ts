@@ -0,0 +1,89 @@
+import { sql } from './db.ts';
+import { detectAnomalies, isAnomaly, shiftYears, ANOMALY_THRESHOLD, HISTORY_YEARS } from '../analysis/AnomalyDetection.ts';
+import type { AnomalyScore } from '../analysis/AnomalyDetection.ts';
+import type { PeriodGranularity } from '../model/Models.ts';
+
+/** Scores change only when prices are re-fetched */
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_PERIODS = 200;
+
+export interface AnomalyQuery {
+    date: string;               // YYYY-MM-DD of the period to score
+    granularity: PeriodGranularity;
+    metric: string;
+    buildingType: string;
+    threshold?: number;
+}
+
+/** Scores at the default threshold by period and query; Map order doubles as LRU order */
+const scoreCache = new Map<string, { expires: number; scores: Map<string, AnomalyScore> }>();
+
+/**
+ * Scores every priced postal code of one period against its own history
+ * and its municipality (see AnomalyDetection.ts), keyed by postal code.
+ * Scores are cached in-process per period, granularity, metric and
+ * building type; a non-default threshold only re-flags them.
+ */
+export async function findAnomalies(query: AnomalyQuery): Promise<Map<string, AnomalyScore>> {
+    const key = `${query.date}|${query.granularity}|${query.metric}|${query.buildingType}`;
+    const cached = scoreCache.get(key);
+    let scores: Map<string, AnomalyScore>;
+
+    if (cached && cached.expires > Date.now()) {
+        scoreCache.delete(key);
+        scoreCache.set(key, cached);
+        scores = cached.scores;
+    } else {
+        scores = await scorePeriod(query);
+        scoreCache.set(key, { expires: Date.now() + CACHE_TTL_MS, scores });
+        if (scoreCache.size > MAX_CACHED_PERIODS) {
+            scoreCache.delete(scoreCache.keys().next().value!);
+        }
+    }
+
+    const threshold = query.threshold ?? ANOMALY_THRESHOLD;
+    if (threshold === ANOMALY_THRESHOLD) return scores;
+    return new Map([...scores].map(([code, s]) => [code, { ...s, anomaly: isAnomaly(s, threshold) }]));
+}
+
+/**
+ * Loads only what the scores use: the same period of earlier years within
+ * HISTORY_YEARS, for the postal codes priced in the period being scored.
+ */
+async function scorePeriod(query: AnomalyQuery): Promise<Map<string, AnomalyScore>> {
+    const rows = await sql`
+        WITH scored AS (
+            SELECT DISTINCT postal_code
+            FROM price_data
+            WHERE date = ${query.date}
+              AND period_granularity = ${query.granularity}
+              AND metric = ${query.metric}
+              AND building_type = ${query.buildingType}
+              AND price_per_sqm IS NOT NULL
+        )
+        SELECT
+            pd.postal_code,
+            pc.municipality,
+            TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+            pd.price_per_sqm,
+            pd.transaction_count
+        FROM price_data pd
+        JOIN scored s ON s.postal_code = pd.postal_code
+        LEFT JOIN postal_code pc ON pc.code = pd.postal_code
+        WHERE pd.date BETWEEN ${shiftYears(query.date, -HISTORY_YEARS)} AND ${query.date}
+          AND TO_CHAR(pd.date, 'MM-DD') = ${query.date.slice(5)}
+          AND pd.period_granularity = ${query.granularity}
+          AND pd.metric = ${query.metric}
+          AND pd.building_type = ${query.buildingType}
+          AND pd.price_per_sqm IS NOT NULL
+    `;
+
+    const points = rows.map((r) => ({
+        postalCode: r.postal_code,
+        municipality: r.municipality,
+        date: r.date,
+        pricePerSqm: Number(r.price_per_sqm),
+        transactionCount: r.transaction_count,
+    }));
+    return detectAnomalies(points, query.date);
+}
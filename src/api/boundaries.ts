@@ -0,0 +1,16 @@
+import { sql } from './db.ts';
+
+/**
+ * The stored boundary vintage closest to a price year, preferring the
+ * earlier vintage on a tie (the areas that existed at the time). Null when
+ * no vintages are stored, in which case postal_code.geometry is used.
+ */
+export async function findClosestVintage(year: number): Promise<number | null> {
+    const [row] = await sql`
+        SELECT vintage
+        FROM (SELECT DISTINCT vintage FROM postal_code_boundary) v
+        ORDER BY ABS(vintage - ${year}), vintage
+        LIMIT 1
+    `;
+    return row ? row.vintage : null;
+}
@@ -0,0 +1,107 @@
+import { toCsv, FINNISH_CSV_OPTIONS } from '../export/CsvWriter.ts';
+import { toJsonStat2 } from '../export/JsonStatWriter.ts';
+import type { CsvColumn, CsvOptions } from '../export/CsvWriter.ts';
+import type { JsonStatDataset } from '../export/JsonStatWriter.ts';
+
+export type ResponseFormat = 'json' | 'csv' | 'jsonstat';
+
+const FORMATS: readonly ResponseFormat[] = ['json', 'csv', 'jsonstat'];
+
+const DELIMITERS: Record<string, string> = {
+    comma: ',',
+    semicolon: ';',
+    tab: '\t',
+};
+
+const DECIMAL_SEPARATORS: Record<string, string> = {
+    point: '.',
+    comma: ',',
+};
+
+/**
+ * A route's result in a form every non-JSON format can be written from.
+ */
+export interface TabularResult<T> {
+    rows: T[];
+    columns: CsvColumn<T>[];
+    dataset: JsonStatDataset<T>;
+    filename: string;           // Without extension, e.g. 'prices-2024-all'
+}
+
+/**
+ * Picks the response format: the format= parameter if given, otherwise
+ * text/csv in the Accept header selects CSV, and JSON is the default.
+ * Returns null for an unknown format= value.
+ */
+export function negotiateFormat(url: URL, headers: Headers): ResponseFormat | null {
+    const param = url.searchParams.get('format');
+    if (param !== null) {
+        return FORMATS.includes(param as ResponseFormat) ? param as ResponseFormat : null;
+    }
+
+    const accept = headers.get('accept') ?? '';
+    return /\btext\/csv\b/.test(accept) ? 'csv' : 'json';
+}
+
+/**
+ * Reads CSV options from the query: locale=fi selects the Finnish Excel
+ * preset, and delimiter=comma|semicolon|tab, decimal=point|comma and
+ * bom=true|false override individual settings.
+ */
+export function parseCsvOptions(url: URL): CsvOptions | string {
+    const locale = url.searchParams.get('locale');
+    if (locale !== null && locale !== 'fi' && locale !== 'en') {
+        return 'locale must be fi or en';
+    }
+
+    const options: CsvOptions = locale === 'fi' ? { ...FINNISH_CSV_OPTIONS } : {};
+
+    const delimiter = url.searchParams.get('delimiter');
+    if (delimiter !== null) {
+        if (!(delimiter in DELIMITERS)) {
+            return `delimiter must be one of: ${Object.keys(DELIMITERS).join(', ')}`;
+        }
+        options.delimiter = DELIMITERS[delimiter];
+    }
+
+    const decimal = url.searchParams.get('decimal');
+    if (decimal !== null) {
+        if (!(decimal in DECIMAL_SEPARATORS)) {
+            return `decimal must be one of: ${Object.keys(DECIMAL_SEPARATORS).join(', ')}`;
+        }
+        options.decimalSeparator = DECIMAL_SEPARATORS[decimal];
+    }
+
+    const bom = url.searchParams.get('bom');
+    if (bom !== null) {
+        if (bom !== 'true' && bom !== 'false') {
+            return 'bom must be true or false';
+        }
+        options.bom = bom === 'true';
+    }
+
+    return options;
+}
+
+/**
+ * Writes a tabular result as CSV (served as a download) or json-stat2.
+ */
+export function tabularResponse<T>(format: Exclude<ResponseFormat, 'json'>, url: URL, result: TabularResult<T>): Response {
+    if (format === 'jsonstat') {
+        return new Response(toJsonStat2(result.rows, result.dataset), {
+            headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        });
+    }
+
+    const options = parseCsvOptions(url);
+    if (typeof options === 'string') {
+        return Response.json({ error: options }, { status: 400 });
+    }
+
+    return new Response(toCsv(result.rows, result.columns, options), {
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${result.filename}.csv"`,
+        },
+    });
+}
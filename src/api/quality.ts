@@ -0,0 +1,24 @@
+import type { PriceMetric, QualityFlag } from '../model/Models.ts';
+
+/**
+ * A short English explanation of a price's quality flag for display next
+ * to the figure, e.g. "Suppressed: too few sales to publish". Null for
+ * plain values.
+ */
+export function describeQuality(flag: QualityFlag | null, metric: PriceMetric | string): string | null {
+    const transactions = metric === 'rent' ? 'rental agreements' : 'sales';
+    switch (flag) {
+        case null:
+            return null;
+        case 'confidential':
+            return `Suppressed: too few ${transactions} to publish`;
+        case 'not_available':
+            return 'Not available or too uncertain to publish';
+        case 'not_applicable':
+            return 'Not applicable: no such dwellings in the area';
+        case 'nil':
+            return `No ${transactions}`;
+        case 'less_than_half':
+            return 'Less than half of the unit';
+    }
+}
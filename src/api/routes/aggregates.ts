@@ -0,0 +1,201 @@
+import { sql } from '../db.ts';
+import { negotiateFormat, tabularResponse } from '../formats.ts';
+import { dissolvePolygons } from '../../geo/dissolve.ts';
+import type { MultiPolygon, PolygonalGeometry } from '../../model/Models.ts';
+import type { CsvColumn } from '../../export/CsvWriter.ts';
+
+type AggregateLevel = 'municipality' | 'region';
+
+const LEVELS: readonly AggregateLevel[] = ['municipality', 'region'];
+
+/** Dissolved geometries change only when geometries are re-fetched */
+const GEOMETRY_TTL_MS = 60 * 60 * 1000;
+
+interface AggregateRow {
+    code: string;
+    name: string | null;
+    pricePerSqm: number | null;
+    medianPricePerSqm: number | null;
+    transactionCount: number;
+    postalCodeCount: number;
+    prevPricePerSqm: number | null;
+    changePercent: number | null;
+}
+
+const AGGREGATE_COLUMNS: CsvColumn<AggregateRow>[] = [
+    { header: 'code', value: (r) => r.code },
+    { header: 'name', value: (r) => r.name },
+    { header: 'price_per_sqm', value: (r) => r.pricePerSqm },
+    { header: 'median_price_per_sqm', value: (r) => r.medianPricePerSqm },
+    { header: 'transaction_count', value: (r) => r.transactionCount },
+    { header: 'postal_code_count', value: (r) => r.postalCodeCount },
+    { header: 'prev_price_per_sqm', value: (r) => r.prevPricePerSqm },
+    { header: 'change_percent', value: (r) => r.changePercent },
+];
+
+const geometryCache = new Map<AggregateLevel, { expires: number; geometries: Map<string, MultiPolygon> }>();
+
+/**
+ * GET /api/aggregates?level=municipality&year=2024&building_type=all[&geometry=false]
+ *
+ * Returns sale prices aggregated per municipality or region (maakunta) as a
+ * GeoJSON FeatureCollection. Each feature carries the transaction-weighted
+ * average €/m² (weights from transaction_count), the median of the postal
+ * code prices, the total transaction count and the change from the previous
+ * year's weighted average. The geometry is the union of the area's postal
+ * codes; pass geometry=false to omit it.
+ *
+ * format=csv and format=jsonstat return the aggregates without geometry.
+ */
+export async function getAggregates(url: URL, headers: Headers = new Headers()): Promise<Response> {
+    const format = negotiateFormat(url, headers);
+    if (format === null) {
+        return Response.json({ error: 'format must be json, csv or jsonstat' }, { status: 400 });
+    }
+
+    const level = (url.searchParams.get('level') ?? 'municipality') as AggregateLevel;
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type') ?? 'all';
+    const includeGeometry = url.searchParams.get('geometry') !== 'false';
+
+    if (!LEVELS.includes(level)) {
+        return Response.json({ error: `level must be one of: ${LEVELS.join(', ')}` }, { status: 400 });
+    }
+
+    if (!yearParam) {
+        return Response.json({ error: 'year parameter is required' }, { status: 400 });
+    }
+
+    const year = parseInt(yearParam, 10);
+    if (isNaN(year)) {
+        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    }
+
+    const areaCode = level === 'region' ? sql`m.region_code` : sql`pc.municipality`;
+    const areaName = level === 'region' ? sql`m.region_name` : sql`m.name`;
+
+    const rows = await sql`
+        WITH base AS (
+            SELECT
+                ${areaCode} AS area_code,
+                ${areaName} AS area_name,
+                EXTRACT(YEAR FROM pd.date)::int AS year,
+                pd.price_per_sqm,
+                pd.transaction_count
+            FROM price_data pd
+            JOIN postal_code pc ON pc.code = pd.postal_code
+            LEFT JOIN municipality m ON m.code = pc.municipality
+            WHERE pd.metric = 'sale'
+              AND pd.period_granularity = 'year'
+              AND pd.date IN (${`${year}-01-01`}, ${`${year - 1}-01-01`})
+              AND pd.building_type = ${buildingType}
+              AND pd.price_per_sqm IS NOT NULL
+        ),
+        agg AS (
+            SELECT
+                area_code,
+                MAX(area_name) AS area_name,
+                year,
+                SUM(price_per_sqm * transaction_count) FILTER (WHERE transaction_count > 0)
+                    / NULLIF(SUM(transaction_count) FILTER (WHERE transaction_count > 0), 0) AS weighted_avg,
+                PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY price_per_sqm) AS median,
+                COALESCE(SUM(transaction_count), 0)::int AS transaction_count,
+                COUNT(*)::int AS postal_code_count
+            FROM base
+            WHERE area_code IS NOT NULL
+            GROUP BY area_code, year
+        )
+        SELECT
+            cur.area_code,
+            cur.area_name,
+            ROUND(cur.weighted_avg::numeric, 2) AS weighted_avg,
+            ROUND(cur.median::numeric, 2) AS median,
+            cur.transaction_count,
+            cur.postal_code_count,
+            ROUND(prev.weighted_avg::numeric, 2) AS prev_weighted_avg,
+            CASE
+                WHEN prev.weighted_avg > 0 AND cur.weighted_avg IS NOT NULL
+                THEN ROUND(((cur.weighted_avg - prev.weighted_avg) / prev.weighted_avg * 100)::numeric, 2)
+                ELSE NULL
+            END AS change_percent
+        FROM agg cur
+        LEFT JOIN agg prev ON prev.area_code = cur.area_code AND prev.year = cur.year - 1
+        WHERE cur.year = ${year}
+        ORDER BY cur.area_code
+    `;
+
+    const aggregates: AggregateRow[] = rows.map((r) => ({
+        code: r.area_code,
+        name: r.area_name,
+        pricePerSqm: r.weighted_avg !== null ? Number(r.weighted_avg) : null,
+        medianPricePerSqm: r.median !== null ? Number(r.median) : null,
+        transactionCount: r.transaction_count,
+        postalCodeCount: r.postal_code_count,
+        prevPricePerSqm: r.prev_weighted_avg !== null ? Number(r.prev_weighted_avg) : null,
+        changePercent: r.change_percent !== null ? Number(r.change_percent) : null,
+    }));
+
+    if (format !== 'json') {
+        return tabularResponse(format, url, {
+            rows: aggregates,
+            columns: AGGREGATE_COLUMNS,
+            dataset: {
+                label: `Prices per ${level}, ${year}, ${buildingType}`,
+                dimensions: [
+                    { id: level === 'region' ? 'Maakunta' : 'Kunta', label: level, code: (r) => r.code, categoryLabel: (r) => r.name },
+                ],
+                measureDimension: { id: 'Tiedot', label: 'Information' },
+                measures: [
+                    { code: 'price_per_sqm', label: 'Transaction-weighted price per m²', unit: 'eur/m2', decimals: 2, value: (r) => r.pricePerSqm },
+                    { code: 'median_price_per_sqm', label: 'Median price per m²', unit: 'eur/m2', decimals: 2, value: (r) => r.medianPricePerSqm },
+                    { code: 'transaction_count', label: 'Number of transactions', value: (r) => r.transactionCount },
+                    { code: 'change_percent', label: 'Year-over-year change', unit: '%', decimals: 2, value: (r) => r.changePercent },
+                ],
+            },
+            filename: `aggregates-${level}-${year}-${buildingType}`,
+        });
+    }
+
+    const geometries = includeGeometry ? await getDissolvedGeometries(level) : new Map<string, MultiPolygon>();
+
+    const features = aggregates.map(({ code, name, ...values }) => ({
+        type: 'Feature' as const,
+        properties: { code, name, level, year, buildingType, ...values },
+        geometry: geometries.get(code) ?? null,
+    }));
+
+    return Response.json({ type: 'FeatureCollection', features });
+}
+
+/**
+ * Dissolves postal code geometries into one MultiPolygon per area,
+ * cached in-process since dissolving every area takes a while.
+ */
+async function getDissolvedGeometries(level: AggregateLevel): Promise<Map<string, MultiPolygon>> {
+    const cached = geometryCache.get(level);
+    if (cached && cached.expires > Date.now()) return cached.geometries;
+
+    const areaCode = level === 'region' ? sql`m.region_code` : sql`pc.municipality`;
+    const rows = await sql`
+        SELECT ${areaCode} AS area_code, pc.geometry
+        FROM postal_code pc
+        LEFT JOIN municipality m ON m.code = pc.municipality
+        WHERE pc.geometry IS NOT NULL
+          AND ${areaCode} IS NOT NULL
+    `;
+
+    const byArea = new Map<string, PolygonalGeometry[]>();
+    for (const r of rows) {
+        const list = byArea.get(r.area_code) ?? [];
+        list.push(r.geometry as PolygonalGeometry);
+        byArea.set(r.area_code, list);
+    }
+
+    const geometries = new Map<string, MultiPolygon>();
+    for (const [code, parts] of byArea) {
+        geometries.set(code, dissolvePolygons(parts));
+    }
+
+    geometryCache.set(level, { expires: Date.now() + GEOMETRY_TTL_MS, geometries });
+    return geometries;
+}
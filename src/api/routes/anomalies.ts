@@ -0,0 +1,74 @@
+import { sql } from '../db.ts';
+import { findAnomalies } from '../anomalies.ts';
+import { ANOMALY_THRESHOLD } from '../../analysis/AnomalyDetection.ts';
+
+/**
+ * GET /api/anomalies?year=2024&building_type=all[&metric=sale][&threshold=3.5]
+ *
+ * Lists the year's prices that stand out, most extreme first: those whose
+ * change from the previous year is far outside the area's own earlier
+ * changes, or whose level is far from the other areas of its municipality.
+ * Both are robust z-scores weighted by transaction count (see
+ * AnomalyDetection.ts); a point is listed when either exceeds `threshold`.
+ */
+export async function getAnomalies(url: URL): Promise<Response> {
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type') ?? 'all';
+    const metric = url.searchParams.get('metric') ?? 'sale';
+    const thresholdParam = url.searchParams.get('threshold');
+
+    if (!yearParam) {
+        return Response.json({ error: 'year parameter is required' }, { status: 400 });
+    }
+
+    const year = parseInt(yearParam, 10);
+    if (isNaN(year)) {
+        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    }
+
+    if (metric !== 'sale' && metric !== 'rent') {
+        return Response.json({ error: 'metric must be sale or rent' }, { status: 400 });
+    }
+
+    const threshold = thresholdParam !== null ? Number(thresholdParam) : ANOMALY_THRESHOLD;
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+        return Response.json({ error: 'threshold must be a positive number' }, { status: 400 });
+    }
+
+    const scores = await findAnomalies({
+        date: `${year}-01-01`,
+        granularity: 'year',
+        metric,
+        buildingType,
+        threshold,
+    });
+
+    const flagged = [...scores.values()]
+        .filter((s) => s.anomaly)
+        .sort((a, b) => extremity(b) - extremity(a) || a.postalCode.localeCompare(b.postalCode));
+
+    const names = flagged.length > 0
+        ? await sql`SELECT code, name FROM postal_code WHERE code IN ${sql(flagged.map((s) => s.postalCode))}`
+        : [];
+    const nameOf = new Map(names.map((r) => [r.code as string, r.name as string | null]));
+
+    return Response.json({
+        year,
+        buildingType,
+        metric,
+        threshold,
+        anomalies: flagged.map((s) => ({
+            postalCode: s.postalCode,
+            name: nameOf.get(s.postalCode) ?? null,
+            municipality: s.municipality,
+            pricePerSqm: s.pricePerSqm,
+            transactionCount: s.transactionCount,
+            historyScore: s.historyScore,
+            municipalityScore: s.municipalityScore,
+        })),
+    });
+}
+
+function extremity(s: { historyScore: number | null; municipalityScore: number | null }): number {
+    return Math.max(Math.abs(s.historyScore ?? 0), Math.abs(s.municipalityScore ?? 0));
+}
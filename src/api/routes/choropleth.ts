@@ -0,0 +1,128 @@
+import { sql } from '../db.ts';
+import { findClosestVintage } from '../boundaries.ts';
+import { classBreaks, classIndex, CLASSIFICATION_METHODS } from '../../analysis/ClassBreaks.ts';
+import { describeQuality } from '../quality.ts';
+import type { ClassificationMethod } from '../../analysis/ClassBreaks.ts';
+
+const MAX_CLASSES = 10;
+
+/**
+ * GET /api/choropleth?year=2024&building_type=all[&metric=sale][&method=quantile][&classes=5]
+ *
+ * Returns every postal code area as a GeoJSON FeatureCollection, with the
+ * year's price, year-over-year change and transaction count in the feature
+ * properties, so the map needs one call. Areas whose price was not
+ * published carry the reason as qualityFlag and qualityDescription.
+ *
+ * Class breaks for the legend are computed over the prices present, by
+ * quantile, equal interval or Jenks natural breaks, and returned as a
+ * `breaks` member of the collection; each feature's `class` is its index
+ * (null without a price).
+ *
+ * Areas are drawn on the stored boundary vintage closest to the year
+ * (reported as `vintage`), or the current areas if none are stored.
+ */
+export async function getChoropleth(url: URL): Promise<Response> {
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type') ?? 'all';
+    const metric = url.searchParams.get('metric') ?? 'sale';
+    const method = (url.searchParams.get('method') ?? 'quantile') as ClassificationMethod;
+    const classesParam = url.searchParams.get('classes') ?? '5';
+
+    if (!yearParam) {
+        return Response.json({ error: 'year parameter is required' }, { status: 400 });
+    }
+
+    const year = parseInt(yearParam, 10);
+    if (isNaN(year)) {
+        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    }
+
+    if (metric !== 'sale' && metric !== 'rent') {
+        return Response.json({ error: 'metric must be sale or rent' }, { status: 400 });
+    }
+
+    if (!CLASSIFICATION_METHODS.includes(method)) {
+        return Response.json({ error: `method must be one of: ${CLASSIFICATION_METHODS.join(', ')}` }, { status: 400 });
+    }
+
+    const classes = parseInt(classesParam, 10);
+    if (isNaN(classes) || classes < 2 || classes > MAX_CLASSES) {
+        return Response.json({ error: `classes must be between 2 and ${MAX_CLASSES}` }, { status: 400 });
+    }
+
+    const vintage = await findClosestVintage(year);
+    const areas = vintage !== null
+        ? sql`(SELECT postal_code AS code, name, municipality, geometry FROM postal_code_boundary WHERE vintage = ${vintage})`
+        : sql`(SELECT code, name, municipality, geometry FROM postal_code WHERE geometry IS NOT NULL)`;
+
+    const rows = await sql`
+        WITH current AS (
+            SELECT postal_code, price_per_sqm, transaction_count, quality_flag
+            FROM price_data
+            WHERE date = ${`${year}-01-01`}
+              AND period_granularity = 'year'
+              AND metric = ${metric}
+              AND building_type = ${buildingType}
+        ),
+        previous AS (
+            SELECT postal_code, price_per_sqm
+            FROM price_data
+            WHERE date = ${`${year - 1}-01-01`}
+              AND period_granularity = 'year'
+              AND metric = ${metric}
+              AND building_type = ${buildingType}
+        )
+        SELECT
+            pc.code,
+            pc.name,
+            pc.municipality,
+            pc.geometry,
+            c.price_per_sqm,
+            c.transaction_count,
+            c.quality_flag,
+            CASE
+                WHEN p.price_per_sqm > 0 AND c.price_per_sqm IS NOT NULL
+                THEN ROUND(((c.price_per_sqm - p.price_per_sqm) / p.price_per_sqm * 100)::numeric, 2)
+                ELSE NULL
+            END AS change_percent
+        FROM ${areas} pc
+        LEFT JOIN current c ON c.postal_code = pc.code
+        LEFT JOIN previous p ON p.postal_code = pc.code
+        ORDER BY pc.code
+    `;
+
+    const prices = rows
+        .filter((r) => r.price_per_sqm !== null)
+        .map((r) => Number(r.price_per_sqm));
+    const breaks = classBreaks(prices, classes, method);
+
+    const features = rows.map((r) => {
+        const pricePerSqm = r.price_per_sqm !== null ? Number(r.price_per_sqm) : null;
+        return {
+            type: 'Feature' as const,
+            properties: {
+                postalCode: r.code,
+                name: r.name,
+                municipality: r.municipality,
+                pricePerSqm,
+                changePercent: r.change_percent !== null ? Number(r.change_percent) : null,
+                transactionCount: r.transaction_count,
+                qualityFlag: r.quality_flag ?? null,
+                qualityDescription: describeQuality(r.quality_flag ?? null, metric),
+                class: pricePerSqm !== null ? classIndex(pricePerSqm, breaks) : null,
+            },
+            geometry: r.geometry,
+        };
+    });
+
+    return Response.json({
+        type: 'FeatureCollection',
+        year,
+        buildingType,
+        metric,
+        vintage,
+        breaks: { method, classes: Math.max(breaks.length - 1, 0), values: breaks },
+        features,
+    });
+}
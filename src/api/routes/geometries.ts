@@ -1,17 +1,63 @@
 import { sql } from '../db.ts';
+import { findClosestVintage } from '../boundaries.ts';
+import { GEOMETRY_DETAILS } from '../../geo/simplify.ts';
+import type { GeometryDetail } from '../../model/Models.ts';
 
 /**
- * GET /api/geometries
+ * GET /api/geometries[?detail=low|medium|high][&year=2020]
  * Returns postal code geometries as a GeoJSON FeatureCollection.
  * Only includes postal codes that have geometry data.
+ *
+ * Without detail the full-resolution geometry is returned; with it, the
+ * simplified and quantized geometry computed at ingest time (falling back
+ * to full resolution for areas not yet simplified).
+ *
+ * With year, the areas come from the stored boundary vintage closest to
+ * that year (reported as `vintage`); otherwise the current areas are used.
  */
-export async function getGeometries(): Promise<Response> {
-    const rows = await sql`
-        SELECT code, name, municipality, geometry
-        FROM postal_code
-        WHERE geometry IS NOT NULL
-        ORDER BY code
-    `;
+export async function getGeometries(url: URL): Promise<Response> {
+    const detail = url.searchParams.get('detail') as GeometryDetail | null;
+    const yearParam = url.searchParams.get('year');
+
+    if (detail !== null && !GEOMETRY_DETAILS.includes(detail)) {
+        return Response.json({ error: `detail must be one of: ${GEOMETRY_DETAILS.join(', ')}` }, { status: 400 });
+    }
+
+    let vintage: number | null = null;
+    if (yearParam !== null) {
+        const year = parseInt(yearParam, 10);
+        if (isNaN(year)) {
+            return Response.json({ error: 'year must be a number' }, { status: 400 });
+        }
+        vintage = await findClosestVintage(year);
+    }
+
+    const rows = vintage === null
+        ? await sql`
+            SELECT pc.code, pc.name, pc.municipality, ${detail ? sql`COALESCE(pcg.geometry, pc.geometry)` : sql`pc.geometry`} AS geometry
+            FROM postal_code pc
+            ${detail ? sql`
+            LEFT JOIN postal_code_geometry pcg
+                ON pcg.postal_code = pc.code
+               AND pcg.detail = ${detail}
+               AND pcg.vintage = COALESCE(
+                   (SELECT MAX(vintage) FROM postal_code_boundary),
+                   (SELECT MAX(vintage) FROM postal_code_geometry)
+               )` : sql``}
+            WHERE pc.geometry IS NOT NULL
+            ORDER BY pc.code
+        `
+        : await sql`
+            SELECT b.postal_code AS code, b.name, b.municipality, ${detail ? sql`COALESCE(pcg.geometry, b.geometry)` : sql`b.geometry`} AS geometry
+            FROM postal_code_boundary b
+            ${detail ? sql`
+            LEFT JOIN postal_code_geometry pcg
+                ON pcg.postal_code = b.postal_code
+               AND pcg.detail = ${detail}
+               AND pcg.vintage = b.vintage` : sql``}
+            WHERE b.vintage = ${vintage}
+            ORDER BY b.postal_code
+        `;
 
     const features = rows.map((r) => ({
         type: 'Feature' as const,
@@ -25,6 +71,7 @@ export async function getGeometries(): Promise<Response> {
 
     const featureCollection = {
         type: 'FeatureCollection',
+        ...(vintage !== null ? { vintage } : {}),
         features,
     };
 
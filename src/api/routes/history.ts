@@ -0,0 +1,150 @@
+import { sql } from '../db.ts';
+import { negotiateFormat, tabularResponse } from '../formats.ts';
+import { describeQuality } from '../quality.ts';
+import { formatPeriod } from '../../utils/Period.ts';
+import type { CsvColumn } from '../../export/CsvWriter.ts';
+import type { PeriodGranularity, QualityFlag } from '../../model/Models.ts';
+
+interface HistoryPoint {
+    buildingType: string;
+    metric: string;
+    date: string;
+    year: number;
+    periodGranularity: PeriodGranularity;
+    pricePerSqm: number | null;
+    transactionCount: number | null;
+    qualityFlag: QualityFlag | null;
+    qualityDescription: string | null;
+    source: string;
+    prevPricePerSqm: number | null;
+    changePercent: number | null;
+}
+
+const HISTORY_COLUMNS: CsvColumn<HistoryPoint>[] = [
+    { header: 'building_type', value: (p) => p.buildingType },
+    { header: 'metric', value: (p) => p.metric },
+    { header: 'date', value: (p) => p.date },
+    { header: 'period_granularity', value: (p) => p.periodGranularity },
+    { header: 'price_per_sqm', value: (p) => p.pricePerSqm },
+    { header: 'transaction_count', value: (p) => p.transactionCount },
+    { header: 'quality_flag', value: (p) => p.qualityFlag },
+    { header: 'source', value: (p) => p.source },
+    { header: 'prev_price_per_sqm', value: (p) => p.prevPricePerSqm },
+    { header: 'change_percent', value: (p) => p.changePercent },
+];
+
+/**
+ * GET /api/postal-codes/:code/history
+ *
+ * Returns the full price time series for one postal code, grouped by
+ * building type (sale prices and rents separately) and ordered by date.
+ * Each point includes the transaction count, the quality flag explaining
+ * a missing price, the source it came from and the year-over-year change.
+ *
+ * format=csv and format=jsonstat return one row per point instead; the
+ * json-stat periods are PxWeb codes (2024, 2024Q3) like StatFin's own.
+ */
+export async function getPostalCodeHistory(code: string, url: URL, headers: Headers = new Headers()): Promise<Response> {
+    const format = negotiateFormat(url, headers);
+    if (format === null) {
+        return Response.json({ error: 'format must be json, csv or jsonstat' }, { status: 400 });
+    }
+
+    if (!/^\d{5}$/.test(code)) {
+        return Response.json({ error: 'postal code must be 5 digits' }, { status: 400 });
+    }
+
+    const [postalCode] = await sql`
+        SELECT code, name, municipality
+        FROM postal_code
+        WHERE code = ${code}
+    `;
+
+    if (!postalCode) {
+        return Response.json({ error: `Unknown postal code: ${code}` }, { status: 404 });
+    }
+
+    const rows = await sql`
+        SELECT
+            pd.building_type,
+            TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+            EXTRACT(YEAR FROM pd.date)::int AS year,
+            pd.period_granularity,
+            pd.metric,
+            pd.price_per_sqm,
+            pd.transaction_count,
+            pd.quality_flag,
+            ds.name AS source,
+            prev.price_per_sqm AS prev_price_per_sqm,
+            CASE
+                WHEN prev.price_per_sqm IS NOT NULL AND prev.price_per_sqm > 0 AND pd.price_per_sqm IS NOT NULL
+                THEN ROUND(((pd.price_per_sqm - prev.price_per_sqm) / prev.price_per_sqm * 100)::numeric, 2)
+                ELSE NULL
+            END AS change_percent
+        FROM price_data pd
+        JOIN data_source ds ON ds.id = pd.source_id
+        LEFT JOIN price_data prev
+            ON prev.postal_code = pd.postal_code
+           AND prev.building_type = pd.building_type
+           AND prev.source_id = pd.source_id
+           AND prev.date = (pd.date - INTERVAL '1 year')::date
+        WHERE pd.postal_code = ${code}
+        ORDER BY pd.metric, pd.building_type, pd.date
+    `;
+
+    const points: HistoryPoint[] = rows.map((r) => ({
+        buildingType: r.building_type,
+        metric: r.metric,
+        date: r.date,
+        year: r.year,
+        periodGranularity: r.period_granularity,
+        pricePerSqm: r.price_per_sqm !== null ? Number(r.price_per_sqm) : null,
+        transactionCount: r.transaction_count,
+        qualityFlag: r.quality_flag,
+        qualityDescription: describeQuality(r.quality_flag, r.metric),
+        source: r.source,
+        prevPricePerSqm: r.prev_price_per_sqm !== null ? Number(r.prev_price_per_sqm) : null,
+        changePercent: r.change_percent !== null ? Number(r.change_percent) : null,
+    }));
+
+    if (format !== 'json') {
+        return tabularResponse(format, url, {
+            rows: points,
+            columns: HISTORY_COLUMNS,
+            dataset: {
+                label: `Price history of postal code ${postalCode.code}`,
+                dimensions: [
+                    { id: 'Talotyyppi', label: 'Building type', code: (p) => p.buildingType },
+                    { id: 'Mittari', label: 'Metric', code: (p) => p.metric },
+                    { id: 'Aika', label: 'Period', code: (p) => formatPeriod(new Date(p.date), p.periodGranularity) },
+                ],
+                measureDimension: { id: 'Tiedot', label: 'Information' },
+                measures: [
+                    { code: 'price_per_sqm', label: 'Price per m²', unit: 'eur/m2', value: (p) => p.pricePerSqm },
+                    { code: 'transaction_count', label: 'Number of transactions', value: (p) => p.transactionCount },
+                    { code: 'change_percent', label: 'Year-over-year change', unit: '%', decimals: 2, value: (p) => p.changePercent },
+                ],
+            },
+            filename: `history-${postalCode.code}`,
+        });
+    }
+
+    // Group points into one series per metric and building type, preserving date order
+    const series = new Map<string, object[]>();
+    for (const { buildingType, metric, ...point } of points) {
+        const key = `${metric}|${buildingType}`;
+        const list = series.get(key) ?? [];
+        list.push(point);
+        series.set(key, list);
+    }
+
+    return Response.json({
+        postalCode: postalCode.code,
+        name: postalCode.name,
+        municipality: postalCode.municipality,
+        buildingTypes: [...series].map(([key, list]) => {
+            const [metric, buildingType] = key.split('|');
+            return { buildingType, metric, series: list };
+        }),
+    });
+}
@@ -0,0 +1,63 @@
+import { sql } from '../db.ts';
+
+/**
+ * GET /api/ingestion-runs?limit=20
+ *
+ * Returns the most recent fetcher runs, newest first, so it's easy to see
+ * when data was last refreshed and whether that run was complete. Each run
+ * carries its validation report (findings of the data quality checks).
+ */
+export async function getIngestionRuns(url: URL): Promise<Response> {
+    const limitParam = url.searchParams.get('limit') ?? '20';
+    const limit = parseInt(limitParam, 10);
+
+    if (isNaN(limit) || limit < 1 || limit > 500) {
+        return Response.json({ error: 'limit must be a number between 1 and 500' }, { status: 400 });
+    }
+
+    const rows = await sql`
+        SELECT
+            ir.id,
+            ds.name AS source,
+            ir.dataset_url,
+            ir.query_config,
+            ir.status,
+            ir.started_at,
+            ir.finished_at,
+            ir.batches_attempted,
+            ir.batches_succeeded,
+            ir.records_inserted,
+            ir.records_updated,
+            ir.records_unchanged,
+            ir.skipped,
+            ir.errors,
+            ir.replay_of,
+            ir.validation_report
+        FROM ingestion_run ir
+        LEFT JOIN data_source ds ON ds.id = ir.source_id
+        ORDER BY ir.started_at DESC
+        LIMIT ${limit}
+    `;
+
+    const result = rows.map((r) => ({
+        id: r.id,
+        source: r.source,
+        datasetUrl: r.dataset_url,
+        queryConfig: r.query_config,
+        status: r.status,
+        complete: r.status === 'complete',
+        startedAt: r.started_at,
+        finishedAt: r.finished_at,
+        batchesAttempted: r.batches_attempted,
+        batchesSucceeded: r.batches_succeeded,
+        recordsInserted: r.records_inserted,
+        recordsUpdated: r.records_updated,
+        recordsUnchanged: r.records_unchanged,
+        skipped: r.skipped,
+        errors: r.errors,
+        replayOf: r.replay_of,
+        validation: r.validation_report,
+    }));
+
+    return Response.json(result);
+}
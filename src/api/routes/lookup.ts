@@ -0,0 +1,110 @@
+import { sql } from '../db.ts';
+import { SpatialIndex } from '../../geo/SpatialIndex.ts';
+import type { PolygonalGeometry } from '../../model/Models.ts';
+
+interface Area {
+    code: string;
+    name: string;
+    municipality: string | null;
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+let indexCache: { expires: number; index: Promise<SpatialIndex<Area>> } | null = null;
+
+/**
+ * Builds the in-memory index of postal code areas used by lookups. Called
+ * at server start; the index is rebuilt once it expires, so re-fetched
+ * geometries are picked up, and a failed build is retried on the next
+ * lookup.
+ */
+export function loadLookupIndex(): Promise<SpatialIndex<Area>> {
+    if (indexCache && indexCache.expires > Date.now()) return indexCache.index;
+
+    const cache = {
+        expires: Date.now() + CACHE_TTL_MS,
+        index: buildIndex().catch((err) => {
+            if (indexCache === cache) indexCache = null;
+            throw err;
+        }),
+    };
+    indexCache = cache;
+    return cache.index;
+}
+
+/**
+ * GET /api/lookup?lat=60.17&lon=24.94
+ *
+ * Returns the postal code area containing a WGS84 point, with its name,
+ * municipality and the latest price for every building type (sale prices
+ * and rents separately). Candidate areas are found from bounding boxes in
+ * an in-memory index and confirmed with a point-in-polygon test.
+ */
+export async function getLookup(url: URL): Promise<Response> {
+    const latParam = url.searchParams.get('lat');
+    const lonParam = url.searchParams.get('lon');
+
+    if (!latParam || !lonParam) {
+        return Response.json({ error: 'lat and lon parameters are required' }, { status: 400 });
+    }
+
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+    if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+        return Response.json({ error: 'lat must be a number between -90 and 90' }, { status: 400 });
+    }
+    if (!Number.isFinite(lon) || lon < -180 || lon > 180) {
+        return Response.json({ error: 'lon must be a number between -180 and 180' }, { status: 400 });
+    }
+
+    // A point on a shared border belongs to both areas; take the lower code
+    const [area] = (await loadLookupIndex()).query([lon, lat]).sort((a, b) => a.code.localeCompare(b.code));
+    if (!area) {
+        return Response.json({ error: `No postal code area at ${lat}, ${lon}` }, { status: 404 });
+    }
+
+    // Latest non-null price per metric and building type; on a shared date the annual figure wins
+    const rows = await sql`
+        SELECT DISTINCT ON (metric, building_type)
+            building_type,
+            metric,
+            TO_CHAR(date, 'YYYY-MM-DD') AS date,
+            EXTRACT(YEAR FROM date)::int AS year,
+            period_granularity,
+            price_per_sqm,
+            transaction_count
+        FROM price_data
+        WHERE postal_code = ${area.code}
+          AND price_per_sqm IS NOT NULL
+        ORDER BY metric, building_type, date DESC, period_granularity = 'year' DESC
+    `;
+
+    return Response.json({
+        postalCode: area.code,
+        name: area.name,
+        municipality: area.municipality,
+        prices: rows.map((r) => ({
+            buildingType: r.building_type,
+            metric: r.metric,
+            date: r.date,
+            year: r.year,
+            periodGranularity: r.period_granularity,
+            pricePerSqm: Number(r.price_per_sqm),
+            transactionCount: r.transaction_count,
+        })),
+    });
+}
+
+async function buildIndex(): Promise<SpatialIndex<Area>> {
+    const rows = await sql`
+        SELECT code, name, municipality, geometry
+        FROM postal_code
+        WHERE geometry IS NOT NULL
+    `;
+
+    const areas = new SpatialIndex<Area>();
+    for (const r of rows) {
+        areas.insert({ code: r.code, name: r.name, municipality: r.municipality }, r.geometry as PolygonalGeometry);
+    }
+    return areas;
+}
@@ -1,27 +1,159 @@
 import { sql } from '../db.ts';
+import { parsePeriod } from '../../utils/Period.ts';
+import { negotiateFormat, tabularResponse } from '../formats.ts';
+import { imputePrices } from '../../analysis/SpatialSmoothing.ts';
+import { describeQuality } from '../quality.ts';
+import { findAnomalies } from '../anomalies.ts';
+import type { Period } from '../../utils/Period.ts';
+import type { QualityFlag } from '../../model/Models.ts';
+import type { CsvColumn } from '../../export/CsvWriter.ts';
+import type { JsonStatMeasure } from '../../export/JsonStatWriter.ts';
+
+interface PriceResultRow {
+    postalCode: string;
+    name: string | null;
+    municipality: string | null;
+    pricePerSqm: number | null;
+    prevPricePerSqm: number | null;
+    changePercent: number | null;
+    transactionCount: number | null;
+    qualityFlag: QualityFlag | null;
+    qualityDescription: string | null;
+    anomaly: boolean;
+    demographicsYear?: number | null;
+    population?: number | null;
+    medianHouseholdIncome?: number | null;
+    priceToIncomeRatio?: number | null;
+    imputed?: boolean;
+    imputedPricePerSqm?: number | null;
+    imputedNeighbours?: number | null;
+}
+
+const PRICE_COLUMNS: CsvColumn<PriceResultRow>[] = [
+    { header: 'postal_code', value: (r) => r.postalCode },
+    { header: 'name', value: (r) => r.name },
+    { header: 'municipality', value: (r) => r.municipality },
+    { header: 'price_per_sqm', value: (r) => r.pricePerSqm },
+    { header: 'prev_price_per_sqm', value: (r) => r.prevPricePerSqm },
+    { header: 'change_percent', value: (r) => r.changePercent },
+    { header: 'transaction_count', value: (r) => r.transactionCount },
+    { header: 'quality_flag', value: (r) => r.qualityFlag },
+    { header: 'anomaly', value: (r) => r.anomaly ? 'true' : 'false' },
+];
+
+const DEMOGRAPHICS_COLUMNS: CsvColumn<PriceResultRow>[] = [
+    { header: 'demographics_year', value: (r) => r.demographicsYear ?? null },
+    { header: 'population', value: (r) => r.population ?? null },
+    { header: 'median_household_income', value: (r) => r.medianHouseholdIncome ?? null },
+    { header: 'price_to_income_ratio', value: (r) => r.priceToIncomeRatio ?? null },
+];
+
+const IMPUTATION_COLUMNS: CsvColumn<PriceResultRow>[] = [
+    { header: 'imputed', value: (r) => r.imputed ? 'true' : 'false' },
+    { header: 'imputed_price_per_sqm', value: (r) => r.imputedPricePerSqm ?? null },
+    { header: 'imputed_neighbours', value: (r) => r.imputedNeighbours ?? null },
+];
+
+const PRICE_MEASURES: JsonStatMeasure<PriceResultRow>[] = [
+    { code: 'price_per_sqm', label: 'Price per m²', unit: 'eur/m2', value: (r) => r.pricePerSqm },
+    { code: 'prev_price_per_sqm', label: 'Price per m² a year earlier', unit: 'eur/m2', value: (r) => r.prevPricePerSqm },
+    { code: 'change_percent', label: 'Year-over-year change', unit: '%', decimals: 2, value: (r) => r.changePercent },
+];
+
+const IMPUTATION_MEASURES: JsonStatMeasure<PriceResultRow>[] = [
+    { code: 'imputed_price_per_sqm', label: 'Imputed price per m² (neighbour average)', unit: 'eur/m2', decimals: 2, value: (r) => r.imputedPricePerSqm ?? null },
+];
+
+const DEMOGRAPHICS_MEASURES: JsonStatMeasure<PriceResultRow>[] = [
+    { code: 'population', label: 'Population', value: (r) => r.population ?? null },
+    { code: 'median_household_income', label: 'Median household income', unit: 'eur', value: (r) => r.medianHouseholdIncome ?? null },
+    { code: 'price_to_income_ratio', label: 'Price-to-income ratio', decimals: 2, value: (r) => r.priceToIncomeRatio ?? null },
+];
 
 /**
  * GET /api/prices?year=2024&building_type=all
+ * GET /api/prices?period=2024Q3&building_type=all
+ * GET /api/prices?year=2024&metric=rent
+ * GET /api/prices?year=2024&include=demographics
+ *
+ * Returns per-postal-code prices for the given year (or quarter/month
+ * period) and building type, including the price for the same period a
+ * year earlier and the year-over-year change percentage.
+ * metric=rent returns monthly rents (€/m²/month) instead of sale prices.
+ *
+ * include=demographics adds Paavo population and median household income
+ * (latest statistics year not after the price year) and the price-to-income
+ * ratio: the price of an average-sized dwelling in the area in years of
+ * median household income.
+ *
+ * impute=true adds a spatially smoothed estimate for areas without a price
+ * or with few transactions: the transaction-weighted average of adjacent
+ * areas (see SpatialSmoothing.ts). Estimates are never written into
+ * pricePerSqm; they come as imputedPricePerSqm with imputed: true, and
+ * areas with no published row at all are added with a null pricePerSqm.
  *
- * Returns per-postal-code prices for the given year and building type,
- * including the previous year's price and year-over-year change percentage.
+ * Rows without a published price carry the reason in qualityFlag (from
+ * stat.fi's status symbol, e.g. 'confidential' when too few sales) and a
+ * display text in qualityDescription; transactionCount is the number of
+ * sales or rental agreements behind the figure.
+ *
+ * anomaly marks prices that stand out from the area's own history or from
+ * its municipality, as listed by /api/anomalies.
+ *
+ * format=csv (or Accept: text/csv) and format=jsonstat return the same rows
+ * as CSV or json-stat2; see formats.ts for the CSV options.
  */
-export async function getPrices(url: URL): Promise<Response> {
+export async function getPrices(url: URL, headers: Headers = new Headers()): Promise<Response> {
+    const format = negotiateFormat(url, headers);
+    if (format === null) {
+        return Response.json({ error: 'format must be json, csv or jsonstat' }, { status: 400 });
+    }
+
     const yearParam = url.searchParams.get('year');
+    const periodParam = url.searchParams.get('period');
     const buildingType = url.searchParams.get('building_type') ?? 'all';
+    const metric = url.searchParams.get('metric') ?? 'sale';
+    const include = (url.searchParams.get('include') ?? '').split(',').filter((v) => v.length > 0);
+
+    const unknownInclude = include.filter((v) => v !== 'demographics');
+    if (unknownInclude.length > 0) {
+        return Response.json({ error: `unknown include: ${unknownInclude.join(', ')}` }, { status: 400 });
+    }
+    const withDemographics = include.includes('demographics');
+
+    const imputeParam = url.searchParams.get('impute') ?? 'false';
+    if (imputeParam !== 'true' && imputeParam !== 'false') {
+        return Response.json({ error: 'impute must be true or false' }, { status: 400 });
+    }
+    const impute = imputeParam === 'true';
+
+    if (metric !== 'sale' && metric !== 'rent') {
+        return Response.json({ error: 'metric must be sale or rent' }, { status: 400 });
+    }
 
-    if (!yearParam) {
-        return Response.json({ error: 'year parameter is required' }, { status: 400 });
+    if (!yearParam && !periodParam) {
+        return Response.json({ error: 'year or period parameter is required' }, { status: 400 });
     }
 
-    const year = parseInt(yearParam, 10);
-    if (isNaN(year)) {
-        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    let period: Period;
+    if (periodParam) {
+        try {
+            period = parsePeriod(periodParam);
+        } catch {
+            return Response.json({ error: 'period must look like 2024, 2024Q3 or 2024M07' }, { status: 400 });
+        }
+    } else {
+        const year = parseInt(yearParam!, 10);
+        if (isNaN(year)) {
+            return Response.json({ error: 'year must be a number' }, { status: 400 });
+        }
+        period = { granularity: 'year', date: new Date(Date.UTC(year, 0, 1)) };
     }
 
-    const prevYear = year - 1;
-    const currentDate = `${year}-01-01`;
-    const prevDate = `${prevYear}-01-01`;
+    const prev = new Date(period.date);
+    prev.setUTCFullYear(prev.getUTCFullYear() - 1);
+    const currentDate = period.date.toISOString().slice(0, 10);
+    const prevDate = prev.toISOString().slice(0, 10);
 
     const rows = await sql`
         WITH current AS (
@@ -29,10 +161,14 @@ export async function getPrices(url: URL): Promise<Response> {
                 pd.postal_code,
                 pc.name,
                 pc.municipality,
-                pd.price_per_sqm
+                pd.price_per_sqm,
+                pd.transaction_count,
+                pd.quality_flag
             FROM price_data pd
             LEFT JOIN postal_code pc ON pc.code = pd.postal_code
             WHERE pd.date = ${currentDate}
+              AND pd.period_granularity = ${period.granularity}
+              AND pd.metric = ${metric}
               AND pd.building_type = ${buildingType}
         ),
         previous AS (
@@ -41,6 +177,8 @@ export async function getPrices(url: URL): Promise<Response> {
                 pd.price_per_sqm
             FROM price_data pd
             WHERE pd.date = ${prevDate}
+              AND pd.period_granularity = ${period.granularity}
+              AND pd.metric = ${metric}
               AND pd.building_type = ${buildingType}
         )
         SELECT
@@ -48,25 +186,157 @@ export async function getPrices(url: URL): Promise<Response> {
             c.name,
             c.municipality,
             c.price_per_sqm,
+            c.transaction_count,
+            c.quality_flag,
             p.price_per_sqm AS prev_price_per_sqm,
             CASE
                 WHEN p.price_per_sqm IS NOT NULL AND p.price_per_sqm > 0 AND c.price_per_sqm IS NOT NULL
                 THEN ROUND(((c.price_per_sqm - p.price_per_sqm) / p.price_per_sqm * 100)::numeric, 2)
                 ELSE NULL
             END AS change_percent
+            ${withDemographics ? sql`,
+            d.year AS demographics_year,
+            d.population,
+            d.median_household_income,
+            CASE
+                WHEN ${metric} = 'sale' AND d.median_household_income > 0 AND d.average_dwelling_size IS NOT NULL
+                THEN ROUND((c.price_per_sqm * d.average_dwelling_size / d.median_household_income)::numeric, 2)
+                ELSE NULL
+            END AS price_to_income_ratio` : sql``}
         FROM current c
         LEFT JOIN previous p ON p.postal_code = c.postal_code
+        ${withDemographics ? sql`
+        LEFT JOIN LATERAL (
+            SELECT *
+            FROM postal_code_demographics pcd
+            WHERE pcd.postal_code = c.postal_code
+              AND pcd.year <= ${period.date.getUTCFullYear()}
+            ORDER BY pcd.year DESC
+            LIMIT 1
+        ) d ON TRUE` : sql``}
         ORDER BY c.postal_code
     `;
 
-    const result = rows.map((r) => ({
+    const anomalies = await findAnomalies({
+        date: currentDate,
+        granularity: period.granularity,
+        metric,
+        buildingType,
+    });
+
+    const result: PriceResultRow[] = rows.map((r) => ({
         postalCode: r.postal_code,
         name: r.name,
         municipality: r.municipality,
         pricePerSqm: r.price_per_sqm ? Number(r.price_per_sqm) : null,
         prevPricePerSqm: r.prev_price_per_sqm ? Number(r.prev_price_per_sqm) : null,
         changePercent: r.change_percent ? Number(r.change_percent) : null,
+        transactionCount: r.transaction_count,
+        qualityFlag: r.quality_flag,
+        qualityDescription: describeQuality(r.quality_flag, metric),
+        anomaly: anomalies.get(r.postal_code)?.anomaly ?? false,
+        ...(withDemographics ? {
+            demographicsYear: r.demographics_year,
+            population: r.population,
+            medianHouseholdIncome: r.median_household_income,
+            priceToIncomeRatio: r.price_to_income_ratio !== null ? Number(r.price_to_income_ratio) : null,
+        } : {}),
     }));
 
-    return Response.json(result);
+    if (impute) {
+        const transactionCounts = new Map(rows.map((r) => [r.postal_code as string, r.transaction_count as number | null]));
+        await addImputedPrices(result, transactionCounts, withDemographics);
+    }
+
+    if (format === 'json') {
+        return Response.json(result);
+    }
+
+    const periodCode = periodParam ?? yearParam!;
+    return tabularResponse(format, url, {
+        rows: result,
+        columns: [
+            ...PRICE_COLUMNS,
+            ...(withDemographics ? DEMOGRAPHICS_COLUMNS : []),
+            ...(impute ? IMPUTATION_COLUMNS : []),
+        ],
+        dataset: {
+            label: `${metric === 'rent' ? 'Rents' : 'Prices'} per postal code, ${periodCode}, ${buildingType}`,
+            dimensions: [
+                { id: 'Postinumero', label: 'Postal code', code: (r) => r.postalCode, categoryLabel: (r) => r.name },
+            ],
+            measureDimension: { id: 'Tiedot', label: 'Information' },
+            measures: [
+                ...PRICE_MEASURES,
+                ...(withDemographics ? DEMOGRAPHICS_MEASURES : []),
+                ...(impute ? IMPUTATION_MEASURES : []),
+            ],
+        },
+        filename: `${metric === 'rent' ? 'rents' : 'prices'}-${periodCode}-${buildingType}`,
+    });
+}
+
+/**
+ * Adds neighbour-based estimates to the result in place: flags every row,
+ * and appends adjacent postal codes that have no row but can be estimated.
+ */
+async function addImputedPrices(
+    result: PriceResultRow[],
+    transactionCounts: Map<string, number | null>,
+    withDemographics: boolean
+): Promise<void> {
+    const adjacency = await sql`SELECT postal_code, neighbour FROM postal_code_adjacency`;
+    const neighbours = new Map<string, string[]>();
+    for (const a of adjacency) {
+        const list = neighbours.get(a.postal_code) ?? [];
+        list.push(a.neighbour);
+        neighbours.set(a.postal_code, list);
+    }
+
+    const observations = new Map(result.map((r) => [r.postalCode, {
+        pricePerSqm: r.pricePerSqm,
+        transactionCount: transactionCounts.get(r.postalCode) ?? null,
+    }]));
+    const estimates = imputePrices(new Set([...observations.keys(), ...neighbours.keys()]), observations, neighbours);
+
+    for (const row of result) {
+        const estimate = estimates.get(row.postalCode);
+        row.imputed = estimate !== undefined;
+        row.imputedPricePerSqm = estimate?.pricePerSqm ?? null;
+        row.imputedNeighbours = estimate?.neighbours ?? null;
+    }
+
+    const missing = [...estimates.keys()].filter((code) => !observations.has(code));
+    if (missing.length === 0) return;
+
+    const areas = await sql`
+        SELECT code, name, municipality
+        FROM postal_code
+        WHERE code IN ${sql(missing)}
+    `;
+    for (const area of areas) {
+        const estimate = estimates.get(area.code)!;
+        result.push({
+            postalCode: area.code,
+            name: area.name,
+            municipality: area.municipality,
+            pricePerSqm: null,
+            prevPricePerSqm: null,
+            changePercent: null,
+            transactionCount: null,
+            qualityFlag: null,
+            qualityDescription: null,
+            anomaly: false,
+            ...(withDemographics ? {
+                demographicsYear: null,
+                population: null,
+                medianHouseholdIncome: null,
+                priceToIncomeRatio: null,
+            } : {}),
+            imputed: true,
+            imputedPricePerSqm: estimate.pricePerSqm,
+            imputedNeighbours: estimate.neighbours,
+        });
+    }
+    result.sort((a, b) => a.postalCode.localeCompare(b.postalCode));
 }
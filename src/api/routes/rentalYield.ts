@@ -0,0 +1,67 @@
+import { sql } from '../db.ts';
+
+/**
+ * GET /api/rental-yield?year=2024&building_type=apartment_1r
+ *
+ * Returns gross rental yield per postal code for the given year:
+ * annual rent per m² (monthly rent × 12) divided by the sale price per m².
+ * Only postal codes with both a sale price and a rent are included.
+ */
+export async function getRentalYield(url: URL): Promise<Response> {
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type') ?? 'all';
+
+    if (!yearParam) {
+        return Response.json({ error: 'year parameter is required' }, { status: 400 });
+    }
+
+    const year = parseInt(yearParam, 10);
+    if (isNaN(year)) {
+        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    }
+
+    const date = `${year}-01-01`;
+
+    const rows = await sql`
+        WITH sale AS (
+            SELECT pd.postal_code, pd.price_per_sqm
+            FROM price_data pd
+            WHERE pd.metric = 'sale'
+              AND pd.period_granularity = 'year'
+              AND pd.date = ${date}
+              AND pd.building_type = ${buildingType}
+              AND pd.price_per_sqm > 0
+        ),
+        rent AS (
+            SELECT pd.postal_code, pd.price_per_sqm AS rent_per_sqm
+            FROM price_data pd
+            WHERE pd.metric = 'rent'
+              AND pd.period_granularity = 'year'
+              AND pd.date = ${date}
+              AND pd.building_type = ${buildingType}
+              AND pd.price_per_sqm IS NOT NULL
+        )
+        SELECT
+            s.postal_code,
+            pc.name,
+            pc.municipality,
+            s.price_per_sqm,
+            r.rent_per_sqm,
+            ROUND((r.rent_per_sqm * 12 / s.price_per_sqm * 100)::numeric, 2) AS gross_yield_percent
+        FROM sale s
+        JOIN rent r ON r.postal_code = s.postal_code
+        LEFT JOIN postal_code pc ON pc.code = s.postal_code
+        ORDER BY s.postal_code
+    `;
+
+    const result = rows.map((r) => ({
+        postalCode: r.postal_code,
+        name: r.name,
+        municipality: r.municipality,
+        pricePerSqm: Number(r.price_per_sqm),
+        monthlyRentPerSqm: Number(r.rent_per_sqm),
+        grossYieldPercent: Number(r.gross_yield_percent),
+    }));
+
+    return Response.json(result);
+}
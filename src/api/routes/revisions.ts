@@ -0,0 +1,89 @@
+import { sql } from '../db.ts';
+
+/**
+ * GET /api/revisions?postal_code=00100&year=2023&building_type=all&limit=100
+ *
+ * Lists revisions stat.fi made to already-stored prices, newest first.
+ * Either postal_code or year is required; building_type narrows further.
+ */
+export async function getRevisions(url: URL): Promise<Response> {
+    const postalCode = url.searchParams.get('postal_code');
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type');
+    const limitParam = url.searchParams.get('limit') ?? '100';
+
+    if (!postalCode && !yearParam) {
+        return Response.json({ error: 'postal_code or year parameter is required' }, { status: 400 });
+    }
+
+    if (postalCode && !/^\d{5}$/.test(postalCode)) {
+        return Response.json({ error: 'postal code must be 5 digits' }, { status: 400 });
+    }
+
+    const year = yearParam ? parseInt(yearParam, 10) : null;
+    if (year !== null && isNaN(year)) {
+        return Response.json({ error: 'year must be a number' }, { status: 400 });
+    }
+
+    const limit = parseInt(limitParam, 10);
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+        return Response.json({ error: 'limit must be a number between 1 and 1000' }, { status: 400 });
+    }
+
+    const rows = await sql`
+        SELECT
+            pr.id,
+            pd.postal_code,
+            pd.building_type,
+            TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+            ds.name AS source,
+            pr.old_price_per_sqm,
+            pr.new_price_per_sqm,
+            pr.old_transaction_count,
+            pr.new_transaction_count,
+            pr.old_quality_flag,
+            pr.new_quality_flag,
+            CASE
+                WHEN pr.old_price_per_sqm IS NOT NULL AND pr.old_price_per_sqm > 0 AND pr.new_price_per_sqm IS NOT NULL
+                THEN ROUND(((pr.new_price_per_sqm - pr.old_price_per_sqm) / pr.old_price_per_sqm * 100)::numeric, 2)
+                ELSE NULL
+            END AS change_percent,
+            pr.ingestion_run_id,
+            pr.revised_at
+        FROM price_revision pr
+        JOIN price_data pd ON pd.id = pr.price_data_id
+        JOIN data_source ds ON ds.id = pd.source_id
+        WHERE TRUE
+            ${postalCode ? sql`AND pd.postal_code = ${postalCode}` : sql``}
+            ${year !== null ? sql`AND pd.date >= ${`${year}-01-01`} AND pd.date < ${`${year + 1}-01-01`}` : sql``}
+            ${buildingType ? sql`AND pd.building_type = ${buildingType}` : sql``}
+        ORDER BY pr.revised_at DESC, pr.id DESC
+        LIMIT ${limit}
+    `;
+
+    const result = rows.map((r) => {
+        const oldPrice = r.old_price_per_sqm !== null ? Number(r.old_price_per_sqm) : null;
+        const newPrice = r.new_price_per_sqm !== null ? Number(r.new_price_per_sqm) : null;
+        return {
+            id: r.id,
+            postalCode: r.postal_code,
+            buildingType: r.building_type,
+            date: r.date,
+            source: r.source,
+            oldPricePerSqm: oldPrice,
+            newPricePerSqm: newPrice,
+            priceDifference: oldPrice !== null && newPrice !== null
+                ? Math.round((newPrice - oldPrice) * 100) / 100
+                : null,
+            changePercent: r.change_percent !== null ? Number(r.change_percent) : null,
+            oldTransactionCount: r.old_transaction_count,
+            newTransactionCount: r.new_transaction_count,
+            oldQualityFlag: r.old_quality_flag,
+            newQualityFlag: r.new_quality_flag,
+            ingestionRunId: r.ingestion_run_id,
+            revisedAt: r.revised_at,
+        };
+    });
+
+    return Response.json(result);
+}
@@ -0,0 +1,157 @@
+import { sql } from '../db.ts';
+import { encodeTile, tileBounds } from '../../geo/mvt.ts';
+import { boundingBox } from '../../geo/SpatialIndex.ts';
+import type { TileAddress, TileFeature } from '../../geo/mvt.ts';
+import type { BoundingBox } from '../../geo/SpatialIndex.ts';
+import type { PolygonalGeometry } from '../../model/Models.ts';
+
+const MAX_ZOOM = 14;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_TILES = 2000;
+
+interface Area {
+    code: string;
+    name: string;
+    municipality: string | null;
+    geometry: PolygonalGeometry;
+    bbox: BoundingBox;
+}
+
+let areaCache: { expires: number; areas: Area[] } | null = null;
+
+/** Encoded tiles by z/x/y and query; Map order doubles as LRU order */
+const tileCache = new Map<string, { expires: number; tile: Uint8Array }>();
+
+/**
+ * GET /api/tiles/:z/:x/:y.mvt[?year=2024&building_type=all&metric=sale]
+ *
+ * Returns the postal code areas intersecting a Web Mercator tile as a
+ * Mapbox Vector Tile with one layer, `postal_codes`. Each feature carries
+ * postalCode, name and municipality; with year, also pricePerSqm,
+ * changePercent and transactionCount for that year, building type and
+ * metric (missing values are left out, as MVT has no null).
+ *
+ * Encoded tiles are cached in-process, keyed by address and query.
+ */
+export async function getTile(address: TileAddress, url: URL): Promise<Response> {
+    const { z, x, y } = address;
+    if (z > MAX_ZOOM || x >= 2 ** z || y >= 2 ** z) {
+        return Response.json({ error: `tile ${z}/${x}/${y} is out of range (max zoom ${MAX_ZOOM})` }, { status: 400 });
+    }
+
+    const yearParam = url.searchParams.get('year');
+    const buildingType = url.searchParams.get('building_type') ?? 'all';
+    const metric = url.searchParams.get('metric') ?? 'sale';
+
+    let year: number | null = null;
+    if (yearParam !== null) {
+        year = parseInt(yearParam, 10);
+        if (isNaN(year)) {
+            return Response.json({ error: 'year must be a number' }, { status: 400 });
+        }
+    }
+
+    if (metric !== 'sale' && metric !== 'rent') {
+        return Response.json({ error: 'metric must be sale or rent' }, { status: 400 });
+    }
+
+    const key = `${z}/${x}/${y}?${year ?? ''}|${buildingType}|${metric}`;
+    const cached = tileCache.get(key);
+    let tile: Uint8Array;
+
+    if (cached && cached.expires > Date.now()) {
+        // Move to the back so the least recently used tile is evicted first
+        tileCache.delete(key);
+        tileCache.set(key, cached);
+        tile = cached.tile;
+    } else {
+        tile = await buildTile(address, year, buildingType, metric);
+        tileCache.set(key, { expires: Date.now() + CACHE_TTL_MS, tile });
+        if (tileCache.size > MAX_CACHED_TILES) {
+            tileCache.delete(tileCache.keys().next().value!);
+        }
+    }
+
+    return new Response(tile, {
+        headers: {
+            'Content-Type': 'application/vnd.mapbox-vector-tile',
+            'Cache-Control': 'public, max-age=3600',
+        },
+    });
+}
+
+async function buildTile(address: TileAddress, year: number | null, buildingType: string, metric: string): Promise<Uint8Array> {
+    const [west, south, east, north] = tileBounds(address);
+    const areas = (await getAreas()).filter(({ bbox }) =>
+        bbox[0] <= east && bbox[2] >= west && bbox[1] <= north && bbox[3] >= south
+    );
+
+    const prices = new Map<string, { pricePerSqm: number | null; changePercent: number | null; transactionCount: number | null }>();
+    if (year !== null && areas.length > 0) {
+        const rows = await sql`
+            SELECT
+                c.postal_code,
+                c.price_per_sqm,
+                c.transaction_count,
+                CASE
+                    WHEN p.price_per_sqm > 0 AND c.price_per_sqm IS NOT NULL
+                    THEN ROUND(((c.price_per_sqm - p.price_per_sqm) / p.price_per_sqm * 100)::numeric, 2)
+                    ELSE NULL
+                END AS change_percent
+            FROM price_data c
+            LEFT JOIN price_data p
+                ON p.postal_code = c.postal_code
+               AND p.building_type = c.building_type
+               AND p.metric = c.metric
+               AND p.period_granularity = c.period_granularity
+               AND p.date = ${`${year - 1}-01-01`}
+            WHERE c.date = ${`${year}-01-01`}
+              AND c.period_granularity = 'year'
+              AND c.metric = ${metric}
+              AND c.building_type = ${buildingType}
+              AND c.postal_code IN ${sql(areas.map((a) => a.code))}
+        `;
+        for (const r of rows) {
+            prices.set(r.postal_code, {
+                pricePerSqm: r.price_per_sqm !== null ? Number(r.price_per_sqm) : null,
+                changePercent: r.change_percent !== null ? Number(r.change_percent) : null,
+                transactionCount: r.transaction_count,
+            });
+        }
+    }
+
+    const features: TileFeature[] = areas.map((area) => ({
+        id: parseInt(area.code, 10),
+        properties: {
+            postalCode: area.code,
+            name: area.name,
+            municipality: area.municipality,
+            ...(prices.get(area.code) ?? {}),
+        },
+        geometry: area.geometry,
+    }));
+
+    return encodeTile(address, [{ name: 'postal_codes', features }]);
+}
+
+/**
+ * All postal code areas with their bounding boxes, cached in-process so a
+ * tile only has to test boxes.
+ */
+async function getAreas(): Promise<Area[]> {
+    if (areaCache && areaCache.expires > Date.now()) return areaCache.areas;
+
+    const rows = await sql`
+        SELECT code, name, municipality, geometry
+        FROM postal_code
+        WHERE geometry IS NOT NULL
+    `;
+
+    const areas = rows.map((r) => {
+        const geometry = r.geometry as PolygonalGeometry;
+        return { code: r.code, name: r.name, municipality: r.municipality, geometry, bbox: boundingBox(geometry) };
+    });
+
+    areaCache = { expires: Date.now() + CACHE_TTL_MS, areas };
+    return areas;
+}
@@ -1,16 +1,39 @@
 import { sql } from '../db.ts';
+import { formatPeriod, isPeriodGranularity } from '../../utils/Period.ts';
 
 /**
- * GET /api/years
+ * GET /api/years?granularity=year
+ *
  * Returns distinct years that have price data, sorted ascending.
+ * With granularity=quarter (or month) returns period codes such as
+ * '2024Q3' for the sub-year data instead.
  */
-export async function getYears(): Promise<Response> {
+export async function getYears(url: URL): Promise<Response> {
+    const granularity = url.searchParams.get('granularity') ?? 'year';
+
+    if (!isPeriodGranularity(granularity)) {
+        return Response.json({ error: 'granularity must be year, quarter or month' }, { status: 400 });
+    }
+
+    if (granularity === 'year') {
+        const rows = await sql`
+            SELECT DISTINCT EXTRACT(YEAR FROM date)::int AS year
+            FROM price_data
+            WHERE period_granularity = 'year'
+            ORDER BY year
+        `;
+
+        const years = rows.map((r) => r.year);
+        return Response.json(years);
+    }
+
     const rows = await sql`
-        SELECT DISTINCT EXTRACT(YEAR FROM date)::int AS year
+        SELECT DISTINCT date
         FROM price_data
-        ORDER BY year
+        WHERE period_granularity = ${granularity}
+        ORDER BY date
     `;
 
-    const years = rows.map((r) => r.year);
-    return Response.json(years);
+    const periods = rows.map((r) => formatPeriod(r.date, granularity));
+    return Response.json(periods);
 }
@@ -3,6 +3,15 @@ import { getYears } from './routes/years.ts';
 import { getPrices } from './routes/prices.ts';
 import { getBuildingTypes } from './routes/buildingTypes.ts';
 import { getGeometries } from './routes/geometries.ts';
+import { getPostalCodeHistory } from './routes/history.ts';
+import { getIngestionRuns } from './routes/ingestionRuns.ts';
+import { getRevisions } from './routes/revisions.ts';
+import { getRentalYield } from './routes/rentalYield.ts';
+import { getAggregates } from './routes/aggregates.ts';
+import { getChoropleth } from './routes/choropleth.ts';
+import { getTile } from './routes/tiles.ts';
+import { getLookup, loadLookupIndex } from './routes/lookup.ts';
+import { getAnomalies } from './routes/anomalies.ts';
 
 const logger = createLogger('API');
 const PORT = parseInt(process.env.API_PORT ?? '3000', 10);
@@ -11,11 +20,30 @@ const PORT = parseInt(process.env.API_PORT ?? '3000', 10);
  * Housing Prices FI — Backend API
  *
  * Endpoints:
- *   GET /api/years           — Available years
- *   GET /api/prices          — Prices by year & building type (with YoY change)
+ *   GET /api/years           — Available years (or quarters with ?granularity=quarter)
+ *   GET /api/prices          — Prices by year or period & building type (with YoY change)
+ *   GET /api/rental-yield    — Gross rental yield per postal code for a year
+ *   GET /api/aggregates      — Weighted prices per municipality or region, with dissolved geometry
  *   GET /api/building-types  — Canonical building types
+ *   GET /api/geometries      — Postal code areas as GeoJSON (?detail=low|medium|high for simplified)
+ *   GET /api/choropleth      — Postal code areas with prices and class breaks, as GeoJSON
+ *   GET /api/tiles/:z/:x/:y.mvt — Postal code areas with prices as Mapbox Vector Tiles
+ *   GET /api/lookup          — Postal code area and latest prices at a point (?lat=&lon=)
+ *   GET /api/postal-codes/:code/history — Full price history for one postal code
+ *   GET /api/ingestion-runs  — Recent fetcher runs (audit log)
+ *   GET /api/revisions       — Revised prices for a postal code or year
+ *   GET /api/anomalies       — Prices that stand out from their history or municipality
+ *
+ * Prices, history and aggregates also return CSV or json-stat2 with
+ * ?format=csv|jsonstat (or Accept: text/csv).
  */
 
+const HISTORY_PATH = /^\/api\/postal-codes\/([^/]+)\/history$/;
+const TILE_PATH = /^\/api\/tiles\/(\d+)\/(\d+)\/(\d+)\.mvt$/;
+
+// Index postal code areas for /api/lookup up front; a failure is retried on the first lookup
+loadLookupIndex().catch((err) => logger.warn({ err }, 'Could not build the lookup index'));
+
 const server = Bun.serve({
     port: PORT,
 
@@ -39,22 +67,54 @@ const server = Bun.serve({
 
             switch (pathname) {
                 case '/api/years':
-                    response = await getYears();
+                    response = await getYears(url);
                     break;
                 case '/api/prices':
-                    response = await getPrices(url);
+                    response = await getPrices(url, req.headers);
+                    break;
+                case '/api/rental-yield':
+                    response = await getRentalYield(url);
+                    break;
+                case '/api/aggregates':
+                    response = await getAggregates(url, req.headers);
                     break;
                 case '/api/building-types':
                     response = await getBuildingTypes();
                     break;
                 case '/api/geometries':
-                    response = await getGeometries();
+                    response = await getGeometries(url);
+                    break;
+                case '/api/choropleth':
+                    response = await getChoropleth(url);
+                    break;
+                case '/api/lookup':
+                    response = await getLookup(url);
+                    break;
+                case '/api/ingestion-runs':
+                    response = await getIngestionRuns(url);
+                    break;
+                case '/api/revisions':
+                    response = await getRevisions(url);
+                    break;
+                case '/api/anomalies':
+                    response = await getAnomalies(url);
                     break;
                 case '/health':
                     response = Response.json({ status: 'ok' });
                     break;
-                default:
-                    response = Response.json({ error: 'Not found' }, { status: 404 });
+                default: {
+                    // Routes with path parameters
+                    const historyMatch = pathname.match(HISTORY_PATH);
+                    const tileMatch = pathname.match(TILE_PATH);
+                    if (historyMatch) {
+                        response = await getPostalCodeHistory(historyMatch[1]!, url, req.headers);
+                    } else if (tileMatch) {
+                        const [z, x, y] = tileMatch.slice(1).map((v) => parseInt(v, 10));
+                        response = await getTile({ z: z!, x: x!, y: y! }, url);
+                    } else {
+                        response = Response.json({ error: 'Not found' }, { status: 404 });
+                    }
+                }
             }
 
             // Attach CORS headers to every response
@@ -0,0 +1,76 @@
+import { parseArgs } from 'node:util';
+
+/**
+ * A command-line option of a subcommand.
+ */
+export interface CommandOption {
+    type: 'string' | 'boolean';
+    short?: string;
+    description: string;
+    /** Placeholder shown in help text, e.g. 'YEARS' */
+    valueName?: string;
+    default?: string | boolean;
+}
+
+export type CommandValues = Record<string, string | boolean | undefined>;
+
+/**
+ * A CLI subcommand (fetch, geometries, status, export).
+ */
+export interface Command {
+    name: string;
+    description: string;
+    options: Record<string, CommandOption>;
+    run(values: CommandValues): Promise<void>;
+}
+
+/**
+ * Parses argv for a command. Throws on unknown options or missing values.
+ */
+export function parseCommandArgs(command: Command, argv: string[]): CommandValues {
+    const options: Record<string, { type: 'string' | 'boolean'; short?: string; default?: string | boolean }> = {};
+    for (const [name, opt] of Object.entries(command.options)) {
+        options[name] = {
+            type: opt.type,
+            ...(opt.short !== undefined ? { short: opt.short } : {}),
+            ...(opt.default !== undefined ? { default: opt.default } : {}),
+        };
+    }
+
+    const { values } = parseArgs({ args: argv, options, strict: true, allowPositionals: false });
+    return values as CommandValues;
+}
+
+/**
+ * Builds the help text for a command from its option definitions.
+ */
+export function formatCommandHelp(command: Command): string {
+    const lines = [
+        `Usage: bun run src/index.ts ${command.name} [options]`,
+        '',
+        command.description,
+        '',
+        'Options:',
+    ];
+
+    const rows = Object.entries(command.options).map(([name, opt]) => {
+        const flag = `${opt.short ? `-${opt.short}, ` : '    '}--${name}${opt.type === 'string' ? ` <${opt.valueName ?? 'value'}>` : ''}`;
+        const def = opt.default !== undefined && opt.default !== false ? ` (default: ${opt.default})` : '';
+        return [flag, opt.description + def] as const;
+    });
+    const width = Math.max(...rows.map(([flag]) => flag.length));
+
+    for (const [flag, description] of rows) {
+        lines.push(`  ${flag.padEnd(width)}  ${description}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Splits a comma-separated option value ('2023,2024' → ['2023', '2024']).
+ */
+export function splitList(value: string | boolean | undefined): string[] | undefined {
+    if (typeof value !== 'string') return undefined;
+    return value.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+}
@@ -0,0 +1,283 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import postgres from 'postgres';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeFile, rm } from 'node:fs/promises';
+import { runFetch } from '../fetch.ts';
+import { DatasetExtractor } from '../../extractor/DatasetExtractor.ts';
+import { DatasetTransformer } from '../../transformer/DatasetTransformer.ts';
+import { STATFIN_PRICES_BY_POSTAL_CODE } from '../../transformer/StatfinDatasets.ts';
+import { PxWebDatasetSource } from '../../source/PxWebDatasetSource.ts';
+import { PostalCodeGeometrySource } from '../../source/PostalCodeGeometrySource.ts';
+import { FakeStatFinServer } from '../../testing/FakeStatFinServer.ts';
+import { PRICES_TABLE_FIXTURE, POSTAL_CODE_LAYER_FIXTURE } from '../../testing/fixtures.ts';
+import { prepareTestDatabase } from '../../testing/database.ts';
+import type { ExtractorOptions, QueryConfig } from '../../model/Models.ts';
+
+// End-to-end tests against a local stand-in for stat.fi. The storing
+// pipeline also needs a throwaway Postgres: set TEST_DATABASE_URL.
+
+const descriptor = STATFIN_PRICES_BY_POSTAL_CODE;
+const FAST: ExtractorOptions = {
+    dimensions: descriptor.dimensions,
+    retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+    rateLimit: { requests: 1000, windowMs: 1000 },
+};
+
+let server: FakeStatFinServer;
+
+beforeAll(() => {
+    server = FakeStatFinServer.start({ tables: [PRICES_TABLE_FIXTURE], layers: [POSTAL_CODE_LAYER_FIXTURE], maxCells: 100 });
+});
+
+afterAll(() => {
+    server.stop();
+});
+
+beforeEach(() => {
+    server.requests.length = 0;
+});
+
+function config(postalCodes: string[], years: string[]): QueryConfig {
+    return { region: 'test', postalCodes, years, buildingTypes: ['1', '2', '3', '5'] };
+}
+
+describe('PxWebDatasetSource', () => {
+    test('fetches metadata from a configured base URL', async () => {
+        const source = new PxWebDatasetSource(descriptor.url, server.pxwebBaseUrl);
+        const metadata = await source.fetchMetadata();
+
+        expect(source.datasetName).toBe('statfin_ashi_pxt_13mu');
+        expect(source.getUrl()).toBe(`${server.url}/PXWeb/api/v1/en/StatFin/statfin_ashi_pxt_13mu.px`);
+        expect(metadata.variables.map((v) => v.code)).toEqual(['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot']);
+        expect(metadata.updated).toBe('2025-01-31T05:00:00Z');
+    });
+
+    test('rejects an unknown table', async () => {
+        const source = new PxWebDatasetSource(descriptor.url.replace('13mu', '99xx'), server.pxwebBaseUrl);
+        await expect(source.fetchMetadata()).rejects.toThrow('Status code: 404');
+    });
+});
+
+describe('DatasetExtractor against the stand-in', () => {
+    test('extracts in batches and transforms the json-stat2', async () => {
+        const source = new PxWebDatasetSource(descriptor.url, server.pxwebBaseUrl);
+        const metadata = await source.fetchMetadata();
+        const extractor = new DatasetExtractor(FAST);
+
+        const result = await extractor.extractBatched(metadata, source.getUrl(), config(['00100', '00200', '99999'], ['2024']), 1);
+
+        // The unknown postal code is filtered out before querying
+        expect(result.status).toBe('complete');
+        expect(result.batchesAttempted).toBe(2);
+        const posted = server.requests.filter((r) => r.method === 'POST').map((r) => r.body as { query: Array<{ code: string; selection: { values: string[] } }> });
+        expect(posted.map((q) => q.query.find((s) => s.code === 'Postinumero')!.selection.values)).toEqual([['00100'], ['00200']]);
+
+        const records = result.datasets.flatMap((raw) =>
+            new DatasetTransformer(raw, descriptor.name, descriptor.buildingTypeMappings, descriptor.dimensions, descriptor.priceMetric).transform().records
+        );
+        expect(records).toHaveLength(8);
+        const record = records.find((r) => r.postalCode === '00100' && r.buildingType === 'apartment_2r')!;
+        expect(record.pricePerSqm).toBe(7000 + 200 - 200);
+        expect(record.transactionCount).toBe(35);
+        expect(record.qualityFlag).toBeNull();
+
+        // Lauttasaari has no terraced houses: kept, with the reason
+        const terraced = records.find((r) => r.postalCode === '00200' && r.buildingType === 'terraced')!;
+        expect(terraced.pricePerSqm).toBeNull();
+        expect(terraced.qualityFlag).toBe('not_applicable');
+    });
+
+    test('retries injected rate limiting and server errors', async () => {
+        const source = new PxWebDatasetSource(descriptor.url, server.pxwebBaseUrl);
+        const metadata = await source.fetchMetadata();
+        server.failNext(429, 1, 0);
+        server.failNext(503);
+
+        const result = await new DatasetExtractor(FAST).extractBatched(metadata, source.getUrl(), config(['00100'], ['2024']));
+
+        expect(result.status).toBe('complete');
+        expect(server.requests.filter((r) => r.method === 'POST')).toHaveLength(3);
+    });
+
+    test('reports a batch over the cell limit as failed', async () => {
+        const source = new PxWebDatasetSource(descriptor.url, server.pxwebBaseUrl);
+        const metadata = await source.fetchMetadata();
+
+        // 5 codes × 3 years × 4 types × 2 measures = 120 cells, over the limit of 100
+        const codes = ['00100', '00200', '01300', '02100', '33100'];
+        const result = await new DatasetExtractor(FAST).extractBatched(metadata, source.getUrl(), config(codes, ['2022', '2023', '2024']), 5);
+
+        expect(result.status).toBe('partial');
+        expect(result.failedBatches[0]!.error).toContain('Status code: 403');
+        expect(server.requests.filter((r) => r.method === 'POST')).toHaveLength(1);  // 403 is not retried
+    });
+
+    test('answers top filters with the latest periods', async () => {
+        const source = new PxWebDatasetSource(descriptor.url, server.pxwebBaseUrl);
+        const metadata = await source.fetchMetadata();
+        const extractor = new DatasetExtractor(FAST);
+
+        const raw = await extractor.extractWithQuery(metadata, source.getUrl(), extractor.buildLatestDataQuery(metadata, 2));
+        const dataset = JSON.parse(raw.data);
+
+        expect(dataset.dimension.Vuosi.category.index).toEqual({ '2023': 0, '2024': 1 });
+        expect(dataset.size).toEqual([2, 6, 4, 2]);
+    });
+});
+
+describe('PostalCodeGeometrySource against the stand-in', () => {
+    test('filters features with CQL_FILTER', async () => {
+        const source = new PostalCodeGeometrySource(2024, server.wfsBaseUrl);
+        const features = await source.fetchForCodes(['00100', '02100']);
+
+        expect(features.map((f) => [f.postalCode, f.municipality])).toEqual([['00100', '091'], ['02100', '049']]);
+        expect(features[0]!.geometry).toMatchObject({ type: 'MultiPolygon' });
+    });
+
+    test('fetches municipalities without geometry', async () => {
+        const municipalities = await new PostalCodeGeometrySource(2024, server.wfsBaseUrl).fetchMunicipalities();
+
+        expect(municipalities.get('33100')).toBe('837');
+        expect(municipalities.size).toBe(5);
+    });
+
+    test('fails on a vintage that is not published', async () => {
+        await expect(new PostalCodeGeometrySource(1999, server.wfsBaseUrl).fetchAll()).rejects.toThrow('WFS request failed: 400');
+    });
+});
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)('fetch pipeline with a database', () => {
+    const env = { ...process.env };
+
+    beforeAll(async () => {
+        await prepareTestDatabase(process.env.TEST_DATABASE_URL!);
+        process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+        process.env.PXWEB_BASE_URL = server.pxwebBaseUrl;
+        process.env.WFS_BASE_URL = server.wfsBaseUrl;
+    });
+
+    afterAll(() => {
+        process.env = env;
+    });
+
+    test('fetches, transforms and stores a region', async () => {
+        await runFetch({
+            datasetUrl: descriptor.url,
+            region: 'pks',
+            years: ['2023', '2024'],
+            batchSize: 2,
+            dryRun: false,
+            allowPartial: false,
+            incremental: false,
+            revisionWindow: 2,
+        });
+
+        const sql = postgres(process.env.TEST_DATABASE_URL!);
+        try {
+            const rows = await sql`
+                SELECT postal_code, COUNT(*)::int AS count
+                FROM price_data
+                WHERE postal_code IN ('00100', '00200', '01300', '02100', '33100')
+                GROUP BY postal_code
+                ORDER BY postal_code
+            `;
+            // Tampere is outside the pks region
+            expect(rows.map((r) => [r.postal_code, r.count])).toEqual([['00100', 8], ['00200', 8], ['01300', 8], ['02100', 8]]);
+
+            const [run] = await sql`SELECT id, status, dataset_url, query_config, validation_report FROM ingestion_run ORDER BY id DESC LIMIT 1`;
+            expect(run!.status).toBe('complete');
+            expect(run!.dataset_url).toBe(descriptor.url);
+            expect(run!.query_config.postalCodes).toEqual(['00100', '00200', '01300', '02100']);
+            expect(run!.validation_report.passed).toBe(true);
+
+            const archived = await sql`SELECT dataset, query_hash FROM raw_response WHERE ingestion_run_id = ${run!.id}`;
+            expect(archived).toHaveLength(2);
+            expect(archived[0]!.dataset).toBe(descriptor.name);
+            expect(archived[0]!.query_hash).not.toBe(archived[1]!.query_hash);
+        } finally {
+            await sql.end();
+        }
+    });
+
+    test('replays archived responses without the network', async () => {
+        const sql = postgres(process.env.TEST_DATABASE_URL!);
+        try {
+            const [original] = await sql`SELECT MAX(ingestion_run_id) AS id FROM raw_response WHERE dataset = ${descriptor.name}`;
+            await sql`DELETE FROM price_data WHERE postal_code = '00100'`;
+
+            await runFetch({
+                datasetUrl: descriptor.url,
+                region: 'pks',
+                years: [],
+                batchSize: 2,
+                dryRun: false,
+                allowPartial: false,
+                incremental: false,
+                revisionWindow: 2,
+                replay: true,
+            });
+
+            expect(server.requests).toHaveLength(0);
+            const [run] = await sql`SELECT status, replay_of, records_inserted, records_unchanged FROM ingestion_run ORDER BY id DESC LIMIT 1`;
+            expect(run!.status).toBe('complete');
+            expect(run!.replay_of).toBe(original!.id);
+            expect([run!.records_inserted, run!.records_unchanged]).toEqual([8, 24]);
+        } finally {
+            await sql.end();
+        }
+    });
+
+    test('a metadata outage is audited as a failed run', async () => {
+        server.failNext(503);
+        const sql = postgres(process.env.TEST_DATABASE_URL!);
+        try {
+            await expect(runFetch({
+                datasetUrl: descriptor.url,
+                region: 'pks',
+                years: ['2024'],
+                batchSize: 5,
+                dryRun: false,
+                allowPartial: false,
+                incremental: false,
+                revisionWindow: 2,
+            })).rejects.toThrow('Status code: 503');
+
+            const [run] = await sql`SELECT status, query_config, errors FROM ingestion_run ORDER BY id DESC LIMIT 1`;
+            expect(run!.status).toBe('failed');
+            expect(run!.query_config).toMatchObject({ region: 'pks', postalCodes: [], years: ['2024'] });
+            expect(run!.errors).toEqual(['Failed to fetch metadata. Status code: 503']);
+        } finally {
+            await sql.end();
+        }
+    });
+
+    test('validation errors abort the store and are kept with the run', async () => {
+        const rules = join(tmpdir(), `validation-rules-${process.pid}.json`);
+        await writeFile(rules, JSON.stringify({ priceBounds: { sale: { terraced: { min: 200, max: 1000 } } } }));
+        const sql = postgres(process.env.TEST_DATABASE_URL!);
+        try {
+            await expect(runFetch({
+                datasetUrl: descriptor.url,
+                region: 'pks',
+                years: ['2024'],
+                batchSize: 5,
+                dryRun: false,
+                allowPartial: false,
+                incremental: false,
+                revisionWindow: 2,
+                validationRules: rules,
+            })).rejects.toThrow('Validation found 3 error(s)');
+
+            const [run] = await sql`SELECT status, records_inserted, errors, validation_report FROM ingestion_run ORDER BY id DESC LIMIT 1`;
+            expect(run!.status).toBe('failed');
+            expect(run!.records_inserted).toBeNull();
+            expect(run!.validation_report.passed).toBe(false);
+            expect(run!.validation_report.findings.map((f: { rule: string; postalCode: string }) => [f.rule, f.postalCode]))
+                .toEqual([['priceBounds', '00100'], ['priceBounds', '01300'], ['priceBounds', '02100']]);
+        } finally {
+            await sql.end();
+            await rm(rules);
+        }
+    });
+});
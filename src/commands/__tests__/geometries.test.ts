@@ -0,0 +1,56 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import postgres from 'postgres';
+import { runGeometries } from '../geometries.ts';
+import { FakeStatFinServer } from '../../testing/FakeStatFinServer.ts';
+import { POSTAL_CODE_LAYER_FIXTURE, MUNICIPALITY_CLASSIFICATION_FIXTURE } from '../../testing/fixtures.ts';
+import { prepareTestDatabase } from '../../testing/database.ts';
+
+// End-to-end against the stand-in for stat.fi and a throwaway Postgres:
+// set TEST_DATABASE_URL.
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)('geometries with a database', () => {
+    const env = { ...process.env };
+    let server: FakeStatFinServer;
+
+    beforeAll(async () => {
+        server = FakeStatFinServer.start({
+            layers: [
+                POSTAL_CODE_LAYER_FIXTURE,
+                { ...POSTAL_CODE_LAYER_FIXTURE, typeName: 'postialue:pno_tilasto_2020' },
+            ],
+            classifications: [MUNICIPALITY_CLASSIFICATION_FIXTURE],
+        });
+        await prepareTestDatabase(process.env.TEST_DATABASE_URL!);
+        process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+        process.env.WFS_BASE_URL = server.wfsBaseUrl;
+        process.env.CLASSIFICATIONS_BASE_URL = server.classificationsBaseUrl;
+    });
+
+    afterAll(() => {
+        server.stop();
+        process.env = env;
+    });
+
+    test('backfilling an older vintage keeps the classification of the newest', async () => {
+        await runGeometries([2024]);
+        server.requests.length = 0;
+
+        await runGeometries([2020]);
+
+        const classified = server.requests.filter((r) => r.path.includes('/correspondenceTables/'));
+        expect(classified.map((r) => decodeURIComponent(r.path).split('/')[5])).toEqual(['kunta_1_20240101#maakunta_1_20240101']);
+
+        const sql = postgres(process.env.TEST_DATABASE_URL!);
+        try {
+            const vintages = await sql`SELECT DISTINCT vintage FROM postal_code_boundary ORDER BY vintage`;
+            expect(vintages.map((r) => r.vintage)).toEqual([2020, 2024]);
+
+            const municipalities = await sql`SELECT code, region_name FROM municipality ORDER BY code`;
+            expect(municipalities.map((r) => [r.code, r.region_name])).toEqual([
+                ['049', 'Uusimaa'], ['091', 'Uusimaa'], ['092', 'Uusimaa'], ['837', 'Pirkanmaa'],
+            ]);
+        } finally {
+            await sql.end();
+        }
+    });
+});
@@ -0,0 +1,147 @@
+import { DatasetExtractor } from '../extractor/DatasetExtractor.ts';
+import { DemographicsTransformer } from '../transformer/DemographicsTransformer.ts';
+import { PAAVO_BY_POSTAL_CODE } from '../transformer/StatfinDatasets.ts';
+import { PxWebDatasetSource } from '../source/PxWebDatasetSource.ts';
+import { PostalCodeGeometrySource } from '../source/PostalCodeGeometrySource.ts';
+import { RegionResolver } from '../source/RegionResolver.ts';
+import { DEFAULT_REGION, DEFAULT_YEARS } from '../config/postalCodes.ts';
+import { parseRegion } from '../config/regions.ts';
+import { createLogger } from '../utils/Logger.ts';
+import { splitList } from './Command.ts';
+import type { Command, CommandValues } from './Command.ts';
+import type { DemographicsRecord, QueryConfig } from '../model/Models.ts';
+
+const logger = createLogger('demographics');
+
+export interface DemographicsOptions {
+    region: string;
+    years: string[];
+    batchSize: number;
+    dryRun: boolean;
+}
+
+/**
+ * Fetches Paavo postal code statistics (income, population, age structure,
+ * dwellings) and stores them in postal_code_demographics.
+ */
+export async function runDemographics(options: DemographicsOptions): Promise<void> {
+    const descriptor = PAAVO_BY_POSTAL_CODE;
+    const dataSource = new PxWebDatasetSource(descriptor.url);
+    const extractor = new DatasetExtractor({
+        dimensions: {
+            time: descriptor.dimensions.time,
+            area: descriptor.dimensions.area,
+            metric: descriptor.dimensions.indicator,
+            metrics: [],
+        },
+    });
+
+    const metadata = await dataSource.fetchMetadata();
+    const resolver = new RegionResolver(new PostalCodeGeometrySource());
+
+    const queryConfig: QueryConfig = {
+        region: options.region,
+        postalCodes: await resolver.resolve(parseRegion(options.region), metadata, descriptor.dimensions.area),
+        years: options.years,
+        metrics: [...new Set(descriptor.indicators.flatMap((m) => m.sourceCodes))],
+    };
+
+    const extraction = await extractor.extractBatched(
+        metadata,
+        dataSource.getUrl(),
+        queryConfig,
+        options.batchSize
+    );
+    if (extraction.status === 'partial') {
+        throw new Error(
+            `${extraction.failedBatches.length}/${extraction.batchesAttempted} batches failed after retries — aborting`
+        );
+    }
+
+    const records: DemographicsRecord[] = [];
+    let skipped = 0;
+    for (const raw of extraction.datasets) {
+        const result = new DemographicsTransformer(raw, descriptor).transform();
+        records.push(...result.records);
+        skipped += result.skipped;
+    }
+    logger.info(`Total: ${records.length} records, ${skipped} skipped`);
+
+    if (options.dryRun || !process.env.DATABASE_URL) {
+        if (!options.dryRun) {
+            logger.info('DATABASE_URL not set, running in dry-run mode');
+        }
+        printPreview(records);
+        return;
+    }
+
+    const { DatabaseClient } = await import('../db/DatabaseClient.ts');
+    const db = new DatabaseClient();
+    try {
+        const count = await db.storeDemographics(
+            { records, skipped, sourceName: descriptor.name },
+            {
+                sourceDescription: descriptor.description,
+                sourceUrl: descriptor.url,
+                sourceUpdated: metadata.updated ? new Date(metadata.updated) : undefined,
+            }
+        );
+        logger.info(`Done — stored demographics for ${count} postal code years`);
+    } finally {
+        await db.close();
+    }
+}
+
+function printPreview(records: DemographicsRecord[]) {
+    console.log(`  ${'Postal'.padEnd(7)} ${'Year'.padEnd(5)} ${'Pop.'.padStart(7)} ${'Income'.padStart(8)} ${'Dwellings'.padStart(9)}`);
+    for (const r of records) {
+        const fmt = (v: number | null, width: number) => (v !== null ? String(v) : 'N/A').padStart(width);
+        console.log(`  ${r.postalCode.padEnd(7)} ${String(r.year).padEnd(5)} ${fmt(r.population, 7)} ${fmt(r.medianHouseholdIncome, 8)} ${fmt(r.dwellings, 9)}`);
+    }
+}
+
+export const demographicsCommand: Command = {
+    name: 'demographics',
+    description: 'Fetch Paavo postal code statistics (income, population, dwellings) into the database.',
+    options: {
+        years: {
+            type: 'string',
+            short: 'y',
+            valueName: 'YEARS',
+            description: 'Comma-separated years',
+            default: DEFAULT_YEARS.join(','),
+        },
+        region: {
+            type: 'string',
+            short: 'r',
+            valueName: 'REGION',
+            description: 'finland, pks, a municipality code (837) or a list (091,853)',
+            default: process.env.REGION ?? DEFAULT_REGION,
+        },
+        'batch-size': {
+            type: 'string',
+            valueName: 'N',
+            description: 'Postal codes per API request',
+            default: '100',
+        },
+        'dry-run': {
+            type: 'boolean',
+            description: 'Print the transformed records instead of storing them',
+            default: false,
+        },
+    },
+
+    async run(values: CommandValues): Promise<void> {
+        const batchSize = parseInt(String(values['batch-size']), 10);
+        if (isNaN(batchSize) || batchSize < 1) {
+            throw new Error('--batch-size must be a positive number');
+        }
+
+        await runDemographics({
+            region: String(values.region),
+            years: splitList(values.years) ?? DEFAULT_YEARS,
+            batchSize,
+            dryRun: values['dry-run'] === true,
+        });
+    },
+};
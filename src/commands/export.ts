@@ -0,0 +1,127 @@
+import { writeFile } from 'node:fs/promises';
+
+import { DatabaseClient } from '../db/DatabaseClient.ts';
+import { toCsv } from '../export/CsvWriter.ts';
+import { createLogger } from '../utils/Logger.ts';
+import type { Command, CommandValues } from './Command.ts';
+import type { CsvColumn } from '../export/CsvWriter.ts';
+import type { PriceDataFilter, PriceDataRow } from '../model/Models.ts';
+
+const logger = createLogger('export');
+
+export type ExportFormat = 'csv' | 'json';
+
+const PRICE_COLUMNS: CsvColumn<PriceDataRow>[] = [
+    { header: 'postal_code', value: (r) => r.postalCode },
+    { header: 'name', value: (r) => r.name },
+    { header: 'municipality', value: (r) => r.municipality },
+    { header: 'building_type', value: (r) => r.buildingType },
+    { header: 'date', value: (r) => r.date },
+    { header: 'period_granularity', value: (r) => r.periodGranularity },
+    { header: 'metric', value: (r) => r.metric },
+    { header: 'price_per_sqm', value: (r) => r.pricePerSqm },
+    { header: 'transaction_count', value: (r) => r.transactionCount },
+    { header: 'quality_flag', value: (r) => r.qualityFlag },
+    { header: 'source', value: (r) => r.source },
+];
+
+/**
+ * Exports price_data rows as CSV or JSON, to a file or stdout.
+ */
+export async function runExport(
+    filter: PriceDataFilter,
+    format: ExportFormat,
+    output?: string
+): Promise<void> {
+    const db = new DatabaseClient();
+
+    try {
+        const rows = await db.getPriceData(filter);
+        const body = format === 'csv'
+            ? toCsv(rows, PRICE_COLUMNS)
+            : JSON.stringify(rows, null, 2) + '\n';
+
+        if (output) {
+            await writeFile(output, body, 'utf-8');
+            logger.info(`Exported ${rows.length} rows to ${output}`);
+        } else {
+            process.stdout.write(body);
+        }
+    } finally {
+        await db.close();
+    }
+}
+
+export const exportCommand: Command = {
+    name: 'export',
+    description: 'Export stored price data as CSV or JSON.',
+    options: {
+        year: {
+            type: 'string',
+            short: 'y',
+            valueName: 'YEAR',
+            description: 'Only this year',
+        },
+        'building-type': {
+            type: 'string',
+            short: 'b',
+            valueName: 'TYPE',
+            description: 'Only this canonical building type (e.g. apartment_1r)',
+        },
+        source: {
+            type: 'string',
+            valueName: 'NAME',
+            description: 'Only this data source (e.g. statfin_ashi_pxt_13mu)',
+        },
+        metric: {
+            type: 'string',
+            short: 'm',
+            valueName: 'METRIC',
+            description: 'Only sale prices or rents (sale, rent)',
+        },
+        format: {
+            type: 'string',
+            short: 'f',
+            valueName: 'FORMAT',
+            description: 'csv or json',
+            default: 'csv',
+        },
+        output: {
+            type: 'string',
+            short: 'o',
+            valueName: 'FILE',
+            description: 'Write to a file instead of stdout',
+        },
+    },
+
+    async run(values: CommandValues): Promise<void> {
+        const format = String(values.format);
+        if (format !== 'csv' && format !== 'json') {
+            throw new Error(`--format must be csv or json, got '${format}'`);
+        }
+
+        let year: number | undefined;
+        if (typeof values.year === 'string') {
+            year = parseInt(values.year, 10);
+            if (isNaN(year)) {
+                throw new Error('--year must be a number');
+            }
+        }
+
+        const metric = values.metric;
+        if (metric !== undefined && metric !== 'sale' && metric !== 'rent') {
+            throw new Error(`--metric must be sale or rent, got '${metric}'`);
+        }
+
+        await runExport(
+            {
+                year,
+                buildingType: typeof values['building-type'] === 'string' ? values['building-type'] : undefined,
+                sourceName: typeof values.source === 'string' ? values.source : undefined,
+                metric,
+            },
+            format,
+            typeof values.output === 'string' ? values.output : undefined
+        );
+    },
+};
@@ -0,0 +1,568 @@
+import { DatasetExtractor } from '../extractor/DatasetExtractor.ts';
+import { DatasetTransformer } from '../transformer/DatasetTransformer.ts';
+import {
+    DATASET_DESCRIPTORS,
+    STATFIN_PRICES_BY_POSTAL_CODE,
+    findDatasetDescriptor,
+} from '../transformer/StatfinDatasets.ts';
+import { PxWebDatasetSource } from '../source/PxWebDatasetSource.ts';
+import { PostalCodeGeometrySource } from '../source/PostalCodeGeometrySource.ts';
+import { RegionResolver } from '../source/RegionResolver.ts';
+import { planIncrementalFetch } from '../extractor/IncrementalPlanner.ts';
+import { DEFAULT_REGION, DEFAULT_YEARS } from '../config/postalCodes.ts';
+import { parseRegion } from '../config/regions.ts';
+import { loadValidationConfig } from '../config/validation.ts';
+import { emptyValidationContext, validateTransformResult } from '../validation/ValidationRules.ts';
+import { formatPeriod } from '../utils/Period.ts';
+import { createLogger } from '../utils/Logger.ts';
+import { splitList } from './Command.ts';
+import type { Command, CommandValues } from './Command.ts';
+import type { DatabaseClient } from '../db/DatabaseClient.ts';
+import type {
+    DatasetDescriptor,
+    DatasetMetadata,
+    RawDataset,
+    TransformResult,
+    QueryConfig,
+    PriceRecord,
+    BatchExtractionResult,
+    ValidationConfig,
+    ValidationReport,
+} from '../model/Models.ts';
+
+const logger = createLogger('fetch');
+
+export const DEFAULT_DATASET_URL = STATFIN_PRICES_BY_POSTAL_CODE.url;
+
+/**
+ * Options for one fetch → transform → store run.
+ */
+export interface FetchOptions {
+    datasetUrl: string;         // Table must have a descriptor in StatfinDatasets.ts
+    region: string;             // Region preset spec, see config/regions.ts
+    years: string[];
+    buildingTypes?: string[];   // Source building type codes; defaults to all mapped codes
+    batchSize: number;
+    dryRun: boolean;            // Print records instead of storing them
+    allowPartial: boolean;      // Store data even if some batches failed
+    incremental: boolean;       // Only fetch missing or revised years (needs DB)
+    revisionWindow: number;     // Recent years to re-fetch when the table was revised
+    replay?: boolean;           // Re-process archived raw responses instead of fetching (needs DB)
+    replayRunId?: number;       // Run whose responses to replay; defaults to the latest archived
+    validationRules?: string;   // JSON file overriding the default validation rules
+}
+
+/**
+ * Runs the pipeline: metadata → region resolution → batched extraction →
+ * transform → validate → store (unless dry-run). Every stored run is
+ * audited in ingestion_run with its validation report, and the raw
+ * responses it fetched are archived in raw_response so the run can be
+ * replayed. Validation errors abort the store.
+ */
+export async function runFetch(options: FetchOptions): Promise<void> {
+    const { datasetUrl, allowPartial } = options;
+
+    logger.info('statfin extract starting...');
+
+    const dataSource = new PxWebDatasetSource(datasetUrl);
+    const descriptor = findDatasetDescriptor(dataSource.datasetName);
+    if (!descriptor) {
+        throw new Error(
+            `No dataset descriptor for '${dataSource.datasetName}' — add one to transformer/StatfinDatasets.ts`
+        );
+    }
+
+    // Read before fetching, so a broken rules file fails fast
+    const validationConfig = await loadValidationConfig(options.validationRules);
+
+    if (options.replay) {
+        await replayFetch(descriptor, options, validationConfig);
+        return;
+    }
+
+    const extractor = new DatasetExtractor({ dimensions: descriptor.dimensions });
+    const region = parseRegion(options.region);
+    const resolver = new RegionResolver(new PostalCodeGeometrySource());
+    const buildingTypes = options.buildingTypes
+        ?? descriptor.buildingTypeMappings.map((m) => m.sourceCode);
+
+    const dryRun = options.dryRun || !process.env.DATABASE_URL;
+    if (!options.dryRun && dryRun) {
+        logger.info('DATABASE_URL not set, running in dry-run mode');
+    }
+
+    let db: DatabaseClient | null = null;
+    if (process.env.DATABASE_URL) {
+        const { DatabaseClient } = await import('../db/DatabaseClient.ts');
+        db = new DatabaseClient();
+    }
+
+    let runId: number | null = null;
+    let extraction: BatchExtractionResult | null = null;
+    let validation: ValidationReport | undefined;
+    let totalSkipped = 0;
+
+    try {
+        // Start the audit record (if storing) before touching the network, so
+        // failed runs are audited too. It holds the requested query until the
+        // region and years are resolved.
+        if (db && !dryRun) {
+            runId = await db.startIngestionRun(datasetUrl, {
+                region: options.region,
+                postalCodes: [],
+                years: options.years,
+                buildingTypes,
+            });
+        }
+
+        // Step 1: get metadata and resolve the region to postal codes
+        const metadata: DatasetMetadata = await dataSource.fetchMetadata();
+
+        const years = options.incremental
+            ? await planIncrementalYears(db, descriptor, metadata, options)
+            : options.years;
+
+        const queryConfig: QueryConfig = {
+            region: options.region,
+            postalCodes: await resolver.resolve(region, metadata, descriptor.dimensions.area),
+            years,
+            buildingTypes,
+        };
+        if (db && runId !== null) {
+            await db.updateIngestionRunConfig(runId, queryConfig);
+        }
+
+        if (years.length === 0) {
+            logger.info('Incremental: all years up to date, nothing to fetch');
+            if (db && runId !== null) {
+                await db.finishIngestionRun(runId, {
+                    status: 'complete',
+                    batchesAttempted: 0,
+                    batchesSucceeded: 0,
+                    stats: { inserted: 0, updated: 0, unchanged: 0 },
+                    skipped: 0,
+                    errors: [],
+                });
+            }
+            return;
+        }
+
+        // Step 2: extract data in batches
+        extraction = await extractor.extractBatched(
+            metadata,
+            dataSource.getUrl(),
+            queryConfig,
+            options.batchSize
+        );
+        const batches: RawDataset[] = extraction.datasets;
+
+        // Archive before transforming, so a transformer failure can be replayed once fixed
+        if (db && runId !== null) {
+            await db.archiveRawResponses(descriptor.name, batches, runId);
+        }
+
+        if (extraction.status === 'partial') {
+            const missing = extraction.failedBatches.length;
+            const msg = `${missing}/${extraction.batchesAttempted} batches failed after retries`;
+            if (!allowPartial) {
+                throw new Error(`${msg} — aborting run (use --allow-partial to store partial data)`);
+            }
+            logger.warn(`${msg} — continuing with partial data`);
+        }
+
+        // Step 3: transform each batch and merge results
+        const mergedResult = transformBatches(batches, descriptor);
+        totalSkipped = mergedResult.skipped;
+
+        logger.info(`Total: ${mergedResult.records.length} records, ${mergedResult.skipped} skipped from ${batches.length} batches`);
+
+        // Step 4: validate; a dry run only reports the findings
+        validation = await validateResult(db, mergedResult, queryConfig, validationConfig);
+        if (!validation.passed && db && runId !== null) {
+            throw new Error(`Validation found ${validation.errors} error(s) — nothing stored`);
+        }
+
+        // Step 5: store to database, or print a preview in dry-run mode
+        if (db && runId !== null) {
+            // Only a complete run may advance the revision marker
+            const sourceUpdated = extraction.status === 'complete' && metadata.updated
+                ? new Date(metadata.updated)
+                : undefined;
+
+            const { sourceId, recordsStored, stats } = await db.storeTransformResult(mergedResult, {
+                sourceDescription: descriptor.description,
+                sourceUrl: datasetUrl,
+                sourceUpdated,
+                ingestionRunId: runId,
+            });
+            logger.info(`Stored ${recordsStored} records to DB (source id: ${sourceId})`);
+
+            await db.finishIngestionRun(runId, {
+                status: extraction.status,
+                sourceId,
+                batchesAttempted: extraction.batchesAttempted,
+                batchesSucceeded: extraction.batchesSucceeded,
+                stats,
+                skipped: totalSkipped,
+                errors: extraction.failedBatches.map((b) => `Batch ${b.index + 1}: ${b.error}`),
+                validation,
+            });
+        } else {
+            prettyPrintResults(mergedResult);
+        }
+    } catch (err) {
+        logger.error({ originalError: err }, 'Extraction failed');
+        if (err instanceof Error) {
+            logger.error(err.stack);
+        }
+
+        if (db && runId !== null) {
+            await db.finishIngestionRun(runId, {
+                status: 'failed',
+                batchesAttempted: extraction?.batchesAttempted ?? 0,
+                batchesSucceeded: extraction?.batchesSucceeded ?? 0,
+                skipped: totalSkipped,
+                errors: [
+                    ...(extraction?.failedBatches.map((b) => `Batch ${b.index + 1}: ${b.error}`) ?? []),
+                    err instanceof Error ? err.message : String(err),
+                ],
+                validation,
+            });
+        }
+        throw err;
+    } finally {
+        await db?.close();
+    }
+}
+
+/**
+ * Transforms raw batches and merges them into one result.
+ */
+function transformBatches(batches: RawDataset[], descriptor: DatasetDescriptor): TransformResult {
+    let allRecords: PriceRecord[] = [];
+    let skipped = 0;
+
+    for (const rawDataset of batches) {
+        const transformer = new DatasetTransformer(
+            rawDataset,
+            descriptor.name,
+            descriptor.buildingTypeMappings,
+            descriptor.dimensions,
+            descriptor.priceMetric
+        );
+        const result = transformer.transform();
+        allRecords = allRecords.concat(result.records);
+        skipped += result.skipped;
+    }
+
+    return {
+        records: allRecords,
+        skipped,
+        sourceName: descriptor.name,
+        buildingTypeMappings: descriptor.buildingTypeMappings,
+    };
+}
+
+/**
+ * Checks a transform result against the validation rules, with context
+ * from the database if there is one, and logs the findings.
+ */
+async function validateResult(
+    db: DatabaseClient | null,
+    result: TransformResult,
+    queryConfig: QueryConfig,
+    config: ValidationConfig
+): Promise<ValidationReport> {
+    const context = db
+        ? await db.getValidationContext(result, queryConfig)
+        : emptyValidationContext(queryConfig.years.length);
+    const report = validateTransformResult(result, context, config);
+
+    for (const finding of report.findings) {
+        const message = `[${finding.rule}] ${finding.message}`;
+        if (finding.severity === 'error') logger.error(message);
+        else logger.warn(message);
+    }
+    const unlisted = report.errors + report.warnings - report.findings.length;
+    logger.info(
+        `Validation ${report.passed ? 'passed' : 'failed'}: ${report.errors} errors, ${report.warnings} warnings` +
+        (unlisted > 0 ? ` (${unlisted} not listed)` : '')
+    );
+    return report;
+}
+
+/**
+ * Replay mode: re-runs transform → validate → store on the raw responses
+ * an earlier run archived, without touching the network. The replay is
+ * audited as a run of its own pointing at the original. The revision
+ * marker is left alone, as the archived data may be older than what is
+ * stored.
+ */
+async function replayFetch(
+    descriptor: DatasetDescriptor,
+    options: FetchOptions,
+    validationConfig: ValidationConfig
+): Promise<void> {
+    if (!process.env.DATABASE_URL) {
+        throw new Error('Replay needs DATABASE_URL to read archived responses');
+    }
+
+    const { DatabaseClient } = await import('../db/DatabaseClient.ts');
+    const db = new DatabaseClient();
+    let runId: number | null = null;
+    let validation: ValidationReport | undefined;
+
+    try {
+        const archived = await db.getArchivedRun(descriptor.name, options.replayRunId);
+        if (!archived) {
+            throw new Error(
+                options.replayRunId !== undefined
+                    ? `Run ${options.replayRunId} archived no responses for '${descriptor.name}'`
+                    : `No archived responses for '${descriptor.name}'`
+            );
+        }
+        logger.info(`Replaying ${archived.responses.length} responses archived by run ${archived.ingestionRunId}`);
+
+        const result = transformBatches(archived.responses, descriptor);
+        logger.info(`Total: ${result.records.length} records, ${result.skipped} skipped from ${archived.responses.length} batches`);
+
+        validation = await validateResult(db, result, archived.queryConfig, validationConfig);
+
+        if (options.dryRun) {
+            prettyPrintResults(result);
+            return;
+        }
+
+        runId = await db.startIngestionRun(options.datasetUrl, archived.queryConfig, archived.ingestionRunId);
+        if (!validation.passed) {
+            throw new Error(`Validation found ${validation.errors} error(s) — nothing stored`);
+        }
+        const { sourceId, recordsStored, stats } = await db.storeTransformResult(result, {
+            sourceDescription: descriptor.description,
+            sourceUrl: options.datasetUrl,
+            ingestionRunId: runId,
+        });
+        logger.info(`Stored ${recordsStored} records to DB (source id: ${sourceId})`);
+
+        await db.finishIngestionRun(runId, {
+            status: 'complete',
+            sourceId,
+            batchesAttempted: archived.responses.length,
+            batchesSucceeded: archived.responses.length,
+            stats,
+            skipped: result.skipped,
+            errors: [],
+            validation,
+        });
+    } catch (err) {
+        if (runId !== null) {
+            await db.finishIngestionRun(runId, {
+                status: 'failed',
+                batchesAttempted: 0,
+                batchesSucceeded: 0,
+                skipped: 0,
+                errors: [err instanceof Error ? err.message : String(err)],
+                validation,
+            });
+        }
+        throw err;
+    } finally {
+        await db.close();
+    }
+}
+
+/**
+ * Incremental mode: compares the dataset's time values and 'updated'
+ * timestamp with what price_data and data_source already hold, and returns
+ * only the years that are missing or may have been revised.
+ * The requested years act as a lower bound, so new years are picked up.
+ */
+async function planIncrementalYears(
+    db: DatabaseClient | null,
+    descriptor: DatasetDescriptor,
+    metadata: DatasetMetadata,
+    options: FetchOptions
+): Promise<string[]> {
+    if (!db) {
+        throw new Error('Incremental mode needs DATABASE_URL to compare with stored data');
+    }
+
+    const timeVar = metadata.variables.find((v) => v.code === descriptor.dimensions.time);
+    if (!timeVar) {
+        throw new Error(`Dataset has no ${descriptor.dimensions.time} variable, cannot plan an incremental fetch`);
+    }
+
+    const state = await db.getSourceState(descriptor.name);
+    const plan = planIncrementalFetch({
+        availableYears: timeVar.values,
+        fromYear: [...options.years].sort()[0] ?? '0000',
+        storedYears: state?.storedYears ?? [],
+        tableUpdated: metadata.updated ? new Date(metadata.updated) : null,
+        lastSourceUpdated: state?.sourceUpdated ?? null,
+        revisionWindow: options.revisionWindow,
+    });
+
+    logger.info(
+        `Incremental: missing [${plan.missingYears.join(',')}], ` +
+        `revised [${plan.revisedYears.join(',')}] (table updated ${metadata.updated ?? 'unknown'})`
+    );
+    return plan.years;
+}
+
+/**
+ * Dry-run output: prints the transformed records as a table.
+ */
+function prettyPrintResults(result: TransformResult) {
+    console.log('\n' + '═'.repeat(80));
+    console.log(`  SOURCE: ${result.sourceName}`);
+    console.log(`  Records: ${result.records.length} | Skipped: ${result.skipped}`);
+    console.log('═'.repeat(80));
+
+    if (result.records.length === 0) {
+        console.log('  (no records)\n');
+        return;
+    }
+
+    // Column widths
+    const header = `  ${'Postal'.padEnd(7)} ${'Building Type'.padEnd(18)} ${'Period'.padEnd(12)} ${'€/m²'.padStart(8)} ${'Sales'.padStart(7)}`;
+    console.log(header);
+    console.log('  ' + '─'.repeat(76));
+
+    for (const r of result.records) {
+        const price = r.pricePerSqm !== null
+            ? r.pricePerSqm.toFixed(r.metric === 'rent' ? 2 : 0).padStart(8)
+            : '     N/A';
+        const count = r.transactionCount !== null ? String(r.transactionCount).padStart(7) : '    N/A';
+        const date = formatPeriod(r.date, r.periodGranularity);
+        console.log(`  ${r.postalCode.padEnd(7)} ${r.buildingType.padEnd(18)} ${date.padEnd(12)} ${price} ${count}`);
+    }
+
+    console.log('═'.repeat(80) + '\n');
+}
+
+export const fetchCommand: Command = {
+    name: 'fetch',
+    description: 'Fetch prices from PxWeb, transform them and store them in the database.',
+    options: {
+        'dataset-url': {
+            type: 'string',
+            valueName: 'URL',
+            description: 'PxWeb dataset URL',
+            default: DEFAULT_DATASET_URL,
+        },
+        dataset: {
+            type: 'string',
+            short: 'd',
+            valueName: 'NAME',
+            description: `Known dataset by table id, overrides --dataset-url (${DATASET_DESCRIPTORS.map((d) => d.name).join(', ')})`,
+        },
+        years: {
+            type: 'string',
+            short: 'y',
+            valueName: 'YEARS',
+            description: 'Comma-separated years',
+            default: DEFAULT_YEARS.join(','),
+        },
+        region: {
+            type: 'string',
+            short: 'r',
+            valueName: 'REGION',
+            description: 'finland, pks, a municipality code (837) or a list (091,853)',
+            default: process.env.REGION ?? DEFAULT_REGION,
+        },
+        'building-types': {
+            type: 'string',
+            valueName: 'CODES',
+            description: 'Comma-separated source building type codes (default: all the dataset maps)',
+        },
+        'batch-size': {
+            type: 'string',
+            valueName: 'N',
+            description: 'Postal codes per API request',
+            default: '30',
+        },
+        'dry-run': {
+            type: 'boolean',
+            description: 'Print the transformed records instead of storing them',
+            default: false,
+        },
+        incremental: {
+            type: 'boolean',
+            short: 'i',
+            description: 'Only fetch years that are missing or revised since the last run (--years sets the earliest year)',
+            default: false,
+        },
+        'revision-window': {
+            type: 'string',
+            valueName: 'N',
+            description: 'In incremental mode, recent years to re-fetch when stat.fi revised the table',
+            default: '2',
+        },
+        replay: {
+            type: 'boolean',
+            description: 'Re-transform and store the raw responses an earlier run archived, without network access',
+            default: false,
+        },
+        'replay-run': {
+            type: 'string',
+            valueName: 'ID',
+            description: 'With --replay, the ingestion run to replay (default: the latest that archived this dataset)',
+        },
+        'validation-rules': {
+            type: 'string',
+            valueName: 'FILE',
+            description: 'JSON file overriding validation thresholds and severities (see config/validation.ts)',
+        },
+        'allow-partial': {
+            type: 'boolean',
+            description: 'Store data even if some batches failed after retries',
+            default: process.env.ALLOW_PARTIAL_FETCH === 'true',
+        },
+    },
+
+    async run(values: CommandValues): Promise<void> {
+        const batchSize = parseInt(String(values['batch-size']), 10);
+        if (isNaN(batchSize) || batchSize < 1) {
+            throw new Error('--batch-size must be a positive number');
+        }
+
+        const revisionWindow = parseInt(String(values['revision-window']), 10);
+        if (isNaN(revisionWindow) || revisionWindow < 0) {
+            throw new Error('--revision-window must be zero or a positive number');
+        }
+
+        let replayRunId: number | undefined;
+        if (typeof values['replay-run'] === 'string') {
+            replayRunId = parseInt(values['replay-run'], 10);
+            if (isNaN(replayRunId)) {
+                throw new Error('--replay-run must be an ingestion run id');
+            }
+        }
+
+        let datasetUrl = String(values['dataset-url']);
+        if (typeof values.dataset === 'string') {
+            const descriptor = findDatasetDescriptor(values.dataset);
+            if (!descriptor) {
+                throw new Error(
+                    `Unknown dataset '${values.dataset}'. Known: ${DATASET_DESCRIPTORS.map((d) => d.name).join(', ')}`
+                );
+            }
+            datasetUrl = descriptor.url;
+        }
+
+        await runFetch({
+            datasetUrl,
+            region: String(values.region),
+            years: splitList(values.years) ?? DEFAULT_YEARS,
+            buildingTypes: splitList(values['building-types']),
+            batchSize,
+            dryRun: values['dry-run'] === true,
+            allowPartial: values['allow-partial'] === true,
+            incremental: values.incremental === true,
+            revisionWindow,
+            replay: values.replay === true,
+            replayRunId,
+            validationRules: typeof values['validation-rules'] === 'string' ? values['validation-rules'] : undefined,
+        });
+    },
+};
@@ -0,0 +1,88 @@
+import { PostalCodeGeometrySource, DEFAULT_BOUNDARY_VINTAGE } from '../source/PostalCodeGeometrySource.ts';
+import { MunicipalityClassificationSource } from '../source/MunicipalityClassificationSource.ts';
+import { DatabaseClient } from '../db/DatabaseClient.ts';
+import { GEOMETRY_DETAIL_LEVELS, GEOMETRY_DETAILS, simplifyTopology } from '../geo/simplify.ts';
+import { computeAdjacency } from '../geo/adjacency.ts';
+import { createLogger } from '../utils/Logger.ts';
+import { splitList } from './Command.ts';
+import type { Command, CommandValues } from './Command.ts';
+import type { PostalCodeFeature } from '../source/PostalCodeGeometrySource.ts';
+import type { PolygonalGeometry, SimplifiedGeometry } from '../model/Models.ts';
+
+const logger = createLogger('FetchGeometries');
+
+/**
+ * Fetches postal code geometries from Tilastokeskus WFS and the
+ * municipality → region classification, and stores them in the database
+ * together with simplified geometries for each detail level and the
+ * adjacency of the current areas.
+ *
+ * Vintages are fetched oldest first, so the newest ends up as the current
+ * geometry in postal_code. Requires DATABASE_URL.
+ */
+export async function runGeometries(vintages: number[]): Promise<void> {
+    const db = new DatabaseClient();
+
+    try {
+        for (const vintage of [...vintages].sort((a, b) => a - b)) {
+            const source = new PostalCodeGeometrySource(vintage);
+            const features = await source.fetchAll();
+            logger.info(`Fetched ${features.length} postal code areas (vintage ${vintage})`);
+
+            const count = await db.storePostalCodeGeometries(features, vintage);
+            logger.info(`Done — stored ${count} postal code geometries`);
+
+            await db.storeSimplifiedGeometries(simplifyFeatures(features, vintage));
+        }
+
+        logger.info('Computing postal code adjacency...');
+        await db.storeAdjacency(computeAdjacency(await db.getPostalCodeGeometries()));
+
+        // Classify municipalities as of the newest stored vintage, which postal_code
+        // holds even when this run only backfilled older ones
+        const latest = await db.getLatestBoundaryVintage();
+        if (latest !== null) {
+            const municipalities = await new MunicipalityClassificationSource().fetchMunicipalities(latest);
+            await db.storeMunicipalities(municipalities);
+        }
+    } finally {
+        await db.close();
+    }
+}
+
+/**
+ * Simplifies all areas together at every detail level, so shared borders
+ * stay shared.
+ */
+function simplifyFeatures(features: PostalCodeFeature[], vintage: number): SimplifiedGeometry[] {
+    const withGeometry = features.filter((f) => f.geometry);
+    const geometries = withGeometry.map((f) => f.geometry as PolygonalGeometry);
+
+    return GEOMETRY_DETAILS.flatMap((detail) => {
+        logger.info(`Simplifying geometries for detail=${detail}...`);
+        const simplified = simplifyTopology(geometries, GEOMETRY_DETAIL_LEVELS[detail]);
+        return simplified.map((geometry, i) => ({ postalCode: withGeometry[i]!.postalCode, vintage, detail, geometry }));
+    });
+}
+
+export const geometriesCommand: Command = {
+    name: 'geometries',
+    description: 'Fetch postal code area geometries and municipality regions into the database.',
+    options: {
+        vintages: {
+            type: 'string',
+            short: 'v',
+            valueName: 'YEARS',
+            description: 'Comma-separated boundary vintages (WFS layer years)',
+            default: String(DEFAULT_BOUNDARY_VINTAGE),
+        },
+    },
+
+    async run(values: CommandValues): Promise<void> {
+        const vintages = (splitList(values.vintages) ?? []).map((v) => parseInt(v, 10));
+        if (vintages.length === 0 || vintages.some((v) => isNaN(v))) {
+            throw new Error('--vintages must be a comma-separated list of years');
+        }
+        await runGeometries(vintages);
+    },
+};
@@ -0,0 +1,68 @@
+import { DatabaseClient } from '../db/DatabaseClient.ts';
+import type { Command } from './Command.ts';
+import type { IngestionRun } from '../model/Models.ts';
+
+/**
+ * Prints the latest ingestion run and row counts per source and year.
+ */
+export async function runStatus(): Promise<void> {
+    const db = new DatabaseClient();
+
+    try {
+        const [lastRun] = await db.getRecentIngestionRuns(1);
+        const counts = await db.getRowCounts();
+
+        console.log('\n' + '═'.repeat(80));
+        console.log('  LAST RUN');
+        console.log('═'.repeat(80));
+        if (lastRun) {
+            printRun(lastRun);
+        } else {
+            console.log('  (no runs recorded)');
+        }
+
+        console.log('\n' + '═'.repeat(80));
+        console.log('  ROWS PER SOURCE AND YEAR');
+        console.log('═'.repeat(80));
+        if (counts.length === 0) {
+            console.log('  (no price data)\n');
+            return;
+        }
+
+        console.log(`  ${'Source'.padEnd(30)} ${'Year'.padEnd(6)} ${'Rows'.padStart(8)} ${'With price'.padStart(11)}`);
+        console.log('  ' + '─'.repeat(76));
+        for (const c of counts) {
+            console.log(`  ${c.sourceName.padEnd(30)} ${String(c.year).padEnd(6)} ${String(c.rows).padStart(8)} ${String(c.rowsWithPrice).padStart(11)}`);
+        }
+        console.log('═'.repeat(80) + '\n');
+    } finally {
+        await db.close();
+    }
+}
+
+function printRun(run: IngestionRun) {
+    const finished = run.finishedAt ? run.finishedAt.toISOString() : '(still running)';
+    console.log(`  Run #${run.id}: ${run.status.toUpperCase()}${run.replayOf !== null ? ` (replay of run #${run.replayOf})` : ''}`);
+    console.log(`  Source:   ${run.sourceName ?? run.datasetUrl}`);
+    console.log(`  Started:  ${run.startedAt.toISOString()}`);
+    console.log(`  Finished: ${finished}`);
+    console.log(`  Batches:  ${run.batchesSucceeded ?? 0}/${run.batchesAttempted ?? 0} succeeded`);
+    console.log(`  Records:  ${run.recordsInserted ?? 0} new, ${run.recordsUpdated ?? 0} updated, ${run.recordsUnchanged ?? 0} unchanged, ${run.skipped ?? 0} skipped`);
+    if (run.validation) {
+        const { passed, errors, warnings } = run.validation;
+        console.log(`  Checks:   ${passed ? 'passed' : 'FAILED'}, ${errors} errors, ${warnings} warnings`);
+    }
+    for (const err of run.errors) {
+        console.log(`  Error:    ${err}`);
+    }
+}
+
+export const statusCommand: Command = {
+    name: 'status',
+    description: 'Show the last ingestion run and row counts per source and year.',
+    options: {},
+
+    async run(): Promise<void> {
+        await runStatus();
+    },
+};
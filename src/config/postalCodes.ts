@@ -1,51 +1,14 @@
 /**
- * Helsinki metropolitan area (PKS) postal codes and default query configuration.
+ * Default query configuration.
+ * Which postal codes to fetch is decided at runtime from a region preset,
+ * see regions.ts.
  */
 
-/** Helsinki postal codes */
-export const HELSINKI_POSTAL_CODES: string[] = [
-    '00100', '00120', '00130', '00140', '00150', '00160', '00170', '00180',
-    '00200', '00210', '00220', '00230', '00240', '00250', '00260', '00270', '00280', '00290',
-    '00300', '00310', '00320', '00330', '00340', '00350', '00360', '00370', '00380', '00390',
-    '00400', '00410', '00420', '00430', '00440',
-    '00500', '00510', '00520', '00530', '00540', '00550', '00560', '00570', '00580', '00590',
-    '00600', '00610', '00620', '00630', '00640', '00650', '00660', '00670', '00680', '00690',
-    '00700', '00710', '00720', '00730', '00740', '00750', '00760', '00770', '00780', '00790',
-    '00800', '00810', '00820', '00830', '00840', '00850', '00860', '00870', '00880', '00890',
-    '00900', '00910', '00920', '00930', '00940', '00950', '00960', '00970', '00980', '00990',
-];
-
-/** Espoo postal codes */
-export const ESPOO_POSTAL_CODES: string[] = [
-    '02100', '02110', '02120', '02130', '02140', '02150', '02160', '02170', '02180',
-    '02200', '02210', '02220', '02230', '02240', '02260', '02270', '02280', '02290',
-    '02300', '02320', '02330', '02340', '02360', '02380',
-    '02600', '02610', '02620', '02630', '02650', '02660', '02680',
-    '02700', '02710', '02720', '02730', '02740', '02750', '02760', '02770', '02780',
-];
-
-/** Vantaa postal codes */
-export const VANTAA_POSTAL_CODES: string[] = [
-    '01200', '01230', '01260', '01280',
-    '01300', '01340', '01350', '01360', '01370', '01380', '01390',
-    '01400', '01420', '01450', '01480', '01490',
-    '01510', '01520',
-    '01600', '01610', '01620', '01630', '01640', '01650', '01660', '01670', '01680', '01690',
-    '01700', '01710', '01720', '01730', '01740', '01750', '01760', '01770',
-];
-
-/** All PKS (pääkaupunkiseutu) postal codes combined */
-export const PKS_POSTAL_CODES: string[] = [
-    ...HELSINKI_POSTAL_CODES,
-    ...ESPOO_POSTAL_CODES,
-    ...VANTAA_POSTAL_CODES,
-];
+/** Default region preset (Helsinki metropolitan area) */
+export const DEFAULT_REGION = 'pks';
 
 /** Default years to fetch */
 export const DEFAULT_YEARS: string[] = ['2020', '2021', '2022', '2023', '2024', '2025'];
 
 /** Default building type codes from stat.fi */
 export const DEFAULT_BUILDING_TYPES: string[] = ['1', '2', '3', '5'];
-
-/** Default metric codes from stat.fi */
-export const DEFAULT_METRICS: string[] = ['keskihinta_aritm_nw', 'lkm_julk20'];
@@ -0,0 +1,49 @@
+/**
+ * Region presets: which postal codes a fetcher run covers.
+ * Presets are resolved to concrete postal codes at runtime
+ * (see RegionResolver), so no postal code lists live in source.
+ */
+
+/**
+ * A region to fetch: the whole country, or the postal codes of one or
+ * more municipalities (identified by their 3-digit Statistics Finland code).
+ */
+export type RegionPreset =
+    | { kind: 'country' }
+    | { kind: 'municipalities'; municipalities: string[]; label: string };
+
+/** PKS (pääkaupunkiseutu): Helsinki, Espoo, Vantaa and Kauniainen */
+export const PKS_MUNICIPALITIES: string[] = ['091', '049', '092', '235'];
+
+/** Named presets accepted by parseRegion() */
+export const NAMED_REGIONS: Record<string, RegionPreset> = {
+    finland: { kind: 'country' },
+    all: { kind: 'country' },
+    pks: { kind: 'municipalities', municipalities: PKS_MUNICIPALITIES, label: 'pks' },
+};
+
+/**
+ * Parses a region spec:
+ *   'finland' / 'all'   → whole country
+ *   'pks'               → Helsinki metropolitan area
+ *   '837'               → one municipality (Tampere)
+ *   '091,853,837'       → several municipalities
+ */
+export function parseRegion(spec: string): RegionPreset {
+    const normalized = spec.trim().toLowerCase();
+
+    const named = NAMED_REGIONS[normalized];
+    if (named) return named;
+
+    const codes = normalized.split(',').map((c) => c.trim()).filter((c) => c.length > 0);
+    const invalid = codes.filter((c) => !/^\d{3}$/.test(c));
+
+    if (codes.length === 0 || invalid.length > 0) {
+        throw new Error(
+            `Invalid region '${spec}'. Use ${Object.keys(NAMED_REGIONS).join(', ')}, ` +
+            `a 3-digit municipality code (e.g. 091) or a comma-separated list of codes.`
+        );
+    }
+
+    return { kind: 'municipalities', municipalities: codes, label: codes.join(',') };
+}
@@ -0,0 +1,67 @@
+import { readFile } from 'node:fs/promises';
+import type { BuildingTypeCode, PriceBounds, ValidationConfig } from '../model/Models.ts';
+
+/**
+ * Default validation rules applied between transform and store (see
+ * validation/ValidationRules.ts). Bounds are deliberately wide: they catch
+ * unit mix-ups and broken parsing, not expensive neighbourhoods.
+ */
+
+function allTypes(bounds: PriceBounds): Record<BuildingTypeCode, PriceBounds> {
+    return {
+        all: bounds,
+        apartment_1r: bounds,
+        apartment_2r: bounds,
+        apartment_3r_plus: bounds,
+        terraced: bounds,
+    };
+}
+
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
+    priceBounds: {
+        severity: 'error',
+        sale: {
+            ...allTypes({ min: 200, max: 20000 }),
+            apartment_1r: { min: 200, max: 25000 },   // Small flats in central Helsinki
+            terraced: { min: 200, max: 15000 },
+        },
+        rent: allTypes({ min: 2, max: 80 }),
+    },
+    transactionCount: { severity: 'error' },
+    yoyChange: { severity: 'warning', maxChangePercent: 40, minTransactions: 10 },
+    unknownPostalCode: { severity: 'warning' },
+    recordCountDrop: { severity: 'warning', maxDropPercent: 50 },
+};
+
+/**
+ * Reads a JSON file of overrides, e.g. `{"yoyChange": {"maxChangePercent": 60}}`
+ * or `{"priceBounds": {"sale": {"terraced": {"min": 500, "max": 12000}}}}`,
+ * and merges it over the defaults.
+ */
+export async function loadValidationConfig(path?: string): Promise<ValidationConfig> {
+    if (!path) return DEFAULT_VALIDATION_CONFIG;
+
+    const overrides = JSON.parse(await readFile(path, 'utf8')) as Record<string, unknown>;
+    const unknown = Object.keys(overrides).filter((rule) => !(rule in DEFAULT_VALIDATION_CONFIG));
+    if (unknown.length > 0) {
+        throw new Error(
+            `Unknown validation rule(s) in ${path}: ${unknown.join(', ')}. ` +
+            `Known: ${Object.keys(DEFAULT_VALIDATION_CONFIG).join(', ')}`
+        );
+    }
+
+    return mergeOverrides(DEFAULT_VALIDATION_CONFIG, overrides) as ValidationConfig;
+}
+
+function mergeOverrides(base: unknown, override: unknown): unknown {
+    if (!isObject(base) || !isObject(override)) return override;
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = mergeOverrides(base[key], value);
+    }
+    return merged;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,10 +4,39 @@ import type {
     PriceRecord,
     TransformResult,
     BuildingTypeMapping,
+    QueryConfig,
+    PriceInsertStats,
+    IngestionRunOutcome,
+    IngestionRun,
+    SourceYearCount,
+    PriceDataFilter,
+    PriceDataRow,
+    SourceState,
+    StoreOptions,
+    DemographicsTransformResult,
+    SimplifiedGeometry,
+    PolygonalGeometry,
+    Adjacency,
+    ArchivedRun,
+    RawDataset,
 } from '../model/Models.ts';
+import { classifyPriceRecords, priceRecordKey } from './PriceChangeClassifier.ts';
+import type { StoredPrice } from './PriceChangeClassifier.ts';
+import { previousYearDate } from '../validation/ValidationRules.ts';
+import type { ValidationContext } from '../validation/ValidationRules.ts';
 import type { PostalCodeFeature } from '../source/PostalCodeGeometrySource.ts';
+import type { MunicipalityInfo } from '../source/MunicipalityClassificationSource.ts';
 import type { Logger } from 'pino';
 
+/**
+ * A model value for a JSONB column. The model interfaces hold plain JSON
+ * data, but without index signatures TypeScript can't match them to
+ * postgres.JSONValue.
+ */
+function toJson(value: object | null): postgres.JSONValue {
+    return value as postgres.JSONValue;
+}
+
 /**
  * Handles all database operations for the housing prices pipeline.
  * Uses the 'postgres' (porsager/postgres) driver for Bun/Node compatibility.
@@ -36,18 +65,7 @@ export class DatabaseClient {
         description?: string,
         url?: string
     ): Promise<number> {
-        this.logger.info(`Ensuring data source: ${name}`);
-
-        const rows = await this.sql`
-            INSERT INTO data_source (name, description, url, last_fetched)
-            VALUES (${name}, ${description ?? null}, ${url ?? null}, NOW())
-            ON CONFLICT (name) DO UPDATE SET last_fetched = NOW()
-            RETURNING id
-        `;
-
-        const id = rows[0].id;
-        this.logger.info(`Data source '${name}' → id ${id}`);
-        return id;
+        return this.transaction((tx) => this.upsertDataSource(tx, name, description, url));
     }
 
     /**
@@ -58,21 +76,7 @@ export class DatabaseClient {
         sourceId: number,
         mappings: BuildingTypeMapping[]
     ): Promise<void> {
-        if (mappings.length === 0) return;
-
-        this.logger.info(
-            `Storing ${mappings.length} building type mappings for source ${sourceId}`
-        );
-
-        for (const m of mappings) {
-            await this.sql`
-                INSERT INTO building_type_mapping (source_id, source_code, source_label, building_type)
-                VALUES (${sourceId}, ${m.sourceCode}, ${m.sourceLabel}, ${m.canonicalCode})
-                ON CONFLICT (source_id, source_code) DO UPDATE SET
-                    source_label = EXCLUDED.source_label,
-                    building_type = EXCLUDED.building_type
-            `;
-        }
+        await this.transaction((tx) => this.upsertBuildingTypeMappings(tx, sourceId, mappings));
     }
 
     /**
@@ -80,154 +84,848 @@ export class DatabaseClient {
      * Inserts missing ones with name/municipality as null (to be enriched later).
      */
     async ensurePostalCodes(codes: string[]): Promise<void> {
-        if (codes.length === 0) return;
-
-        const uniqueCodes = [...new Set(codes)];
-        this.logger.info(`Ensuring ${uniqueCodes.length} postal codes exist`);
-
-        // Batch insert, skip conflicts
-        for (const code of uniqueCodes) {
-            await this.sql`
-                INSERT INTO postal_code (code)
-                VALUES (${code})
-                ON CONFLICT (code) DO NOTHING
-            `;
-        }
+        await this.transaction((tx) => this.insertMissingPostalCodes(tx, codes));
     }
 
     /**
      * Inserts price records into the database.
-     * Uses upsert: if a record for the same (postal_code, building_type, date, source_id)
-     * already exists, it updates the price and transaction count.
+     * Each record is classified against the stored row for the same
+     * (postal_code, building_type, date, source_id): new rows are inserted,
+     * changed rows are updated and their old values kept in price_revision,
+     * unchanged rows are left alone.
      *
-     * @returns Number of records inserted/updated
+     * @returns Counts of inserted, updated and unchanged records
      */
     async insertPriceRecords(
         records: PriceRecord[],
-        sourceId: number
+        sourceId: number,
+        ingestionRunId?: number
+    ): Promise<PriceInsertStats> {
+        return this.transaction((tx) => this.upsertPriceRecords(tx, records, sourceId, ingestionRunId));
+    }
+
+    /**
+     * Full pipeline: store a TransformResult into the database.
+     * Handles source registration, postal codes, mappings, and price data.
+     * Runs in a single transaction, so a failure never leaves a half-written source.
+     */
+    async storeTransformResult(
+        result: TransformResult,
+        options: StoreOptions = {}
+    ): Promise<{ sourceId: number; recordsStored: number; stats: PriceInsertStats }> {
+        const { sourceId, stats } = await this.transaction(async (tx) => {
+            const sourceId = await this.upsertDataSource(
+                tx,
+                result.sourceName,
+                options.sourceDescription,
+                options.sourceUrl,
+                options.sourceUpdated
+            );
+
+            // Ensure postal codes exist
+            const postalCodes = result.records.map((r) => r.postalCode);
+            await this.insertMissingPostalCodes(tx, postalCodes);
+
+            // Store building type mappings
+            await this.upsertBuildingTypeMappings(tx, sourceId, result.buildingTypeMappings);
+
+            // Insert price records
+            const stats = await this.upsertPriceRecords(
+                tx,
+                result.records,
+                sourceId,
+                options.ingestionRunId
+            );
+
+            return { sourceId, stats };
+        });
+        const recordsStored = stats.inserted + stats.updated + stats.unchanged;
+
+        this.logger.info(
+            `Pipeline complete for '${result.sourceName}': ${recordsStored} records stored`
+        );
+
+        return { sourceId, recordsStored, stats };
+    }
+
+    /**
+     * Records the start of a fetcher run in the ingestion_run audit table.
+     *
+     * @returns The run id, to be passed to finishIngestionRun
+     */
+    async startIngestionRun(
+        datasetUrl: string,
+        queryConfig: QueryConfig,
+        replayOf?: number
     ): Promise<number> {
-        if (records.length === 0) return 0;
+        const rows = await this.sql`
+            INSERT INTO ingestion_run (dataset_url, query_config, replay_of)
+            VALUES (${datasetUrl}, ${this.sql.json(toJson(queryConfig))}, ${replayOf ?? null})
+            RETURNING id
+        `;
 
-        this.logger.info(`Inserting ${records.length} price records...`);
+        const id = rows[0]!.id;
+        this.logger.info(`Ingestion run ${id} started`);
+        return id;
+    }
 
-        let count = 0;
-        // Batch in chunks to avoid huge queries
-        const BATCH_SIZE = 500;
+    /**
+     * Replaces the query a run was started with, once the region and years
+     * it actually fetches are resolved.
+     */
+    async updateIngestionRunConfig(runId: number, queryConfig: QueryConfig): Promise<void> {
+        await this.sql`
+            UPDATE ingestion_run SET query_config = ${this.sql.json(toJson(queryConfig))}
+            WHERE id = ${runId}
+        `;
+    }
+
+    /**
+     * Records the final state of a fetcher run.
+     */
+    async finishIngestionRun(
+        runId: number,
+        outcome: IngestionRunOutcome
+    ): Promise<void> {
+        await this.sql`
+            UPDATE ingestion_run SET
+                status = ${outcome.status},
+                finished_at = NOW(),
+                source_id = ${outcome.sourceId ?? null},
+                batches_attempted = ${outcome.batchesAttempted},
+                batches_succeeded = ${outcome.batchesSucceeded},
+                records_inserted = ${outcome.stats?.inserted ?? null},
+                records_updated = ${outcome.stats?.updated ?? null},
+                records_unchanged = ${outcome.stats?.unchanged ?? null},
+                skipped = ${outcome.skipped},
+                errors = ${this.sql.json(outcome.errors)},
+                validation_report = ${outcome.validation ? this.sql.json(toJson(outcome.validation)) : null}
+            WHERE id = ${runId}
+        `;
+
+        this.logger.info(`Ingestion run ${runId} finished: ${outcome.status}`);
+    }
+
+    /**
+     * What is already stored for a source: the dataset 'updated' timestamp
+     * from the last complete run and the years present in price_data.
+     *
+     * @returns null if the source has never been stored
+     */
+    async getSourceState(sourceName: string): Promise<SourceState | null> {
+        const [row] = await this.sql`
+            SELECT
+                ds.source_updated,
+                ARRAY(
+                    SELECT DISTINCT CASE pd.period_granularity
+                        WHEN 'quarter' THEN TO_CHAR(pd.date, 'YYYY"Q"Q')
+                        WHEN 'month' THEN TO_CHAR(pd.date, 'YYYY"M"MM')
+                        ELSE TO_CHAR(pd.date, 'YYYY')
+                    END
+                    FROM price_data pd
+                    WHERE pd.source_id = ds.id
+                    ORDER BY 1
+                ) AS stored_years
+            FROM data_source ds
+            WHERE ds.name = ${sourceName}
+        `;
+
+        if (!row) return null;
+        return {
+            sourceUpdated: row.source_updated,
+            storedYears: row.stored_years,
+        };
+    }
 
-        for (let i = 0; i < records.length; i += BATCH_SIZE) {
-            const batch = records.slice(i, i + BATCH_SIZE);
+    /**
+     * What the validation rules compare an incoming result against: which
+     * of its postal codes are known, the source's stored prices a year
+     * before its records, and the last complete run of the same region.
+     */
+    async getValidationContext(result: TransformResult, queryConfig: QueryConfig): Promise<ValidationContext> {
+        const codes = [...new Set(result.records.map((r) => r.postalCode))];
+        const known = codes.length > 0
+            ? await this.sql`SELECT code FROM postal_code WHERE code IN ${this.sql(codes)}`
+            : [];
+
+        const previous = result.records.length > 0
+            ? await this.sql`
+                SELECT
+                    pd.postal_code,
+                    pd.building_type,
+                    TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+                    pd.price_per_sqm,
+                    pd.transaction_count
+                FROM price_data pd
+                JOIN data_source ds ON ds.id = pd.source_id
+                JOIN UNNEST(
+                    ${this.sql.array(result.records.map((r) => r.postalCode))}::varchar[],
+                    ${this.sql.array(result.records.map((r) => r.buildingType))}::varchar[],
+                    ${this.sql.array(result.records.map((r) => previousYearDate(r.date)))}::date[]
+                ) AS wanted(postal_code, building_type, date)
+                    ON wanted.postal_code = pd.postal_code
+                   AND wanted.building_type = pd.building_type
+                   AND wanted.date = pd.date
+                WHERE ds.name = ${result.sourceName}
+            `
+            : [];
+
+        // Runs differ in how many years they fetch, so compare per requested year
+        const [run] = await this.sql`
+            SELECT
+                ir.id,
+                jsonb_array_length(ir.query_config->'years') AS periods,
+                COALESCE(ir.records_inserted, 0) + COALESCE(ir.records_updated, 0) + COALESCE(ir.records_unchanged, 0) AS records
+            FROM ingestion_run ir
+            JOIN data_source ds ON ds.id = ir.source_id
+            WHERE ds.name = ${result.sourceName}
+              AND ir.status = 'complete'
+              AND ir.query_config->>'region' IS NOT DISTINCT FROM ${queryConfig.region ?? null}
+              AND jsonb_array_length(ir.query_config->'years') > 0
+            ORDER BY ir.id DESC
+            LIMIT 1
+        `;
+
+        return {
+            knownPostalCodes: new Set(known.map((r) => r.code)),
+            previousPrices: new Map(previous.map((r) => [
+                priceRecordKey(r.postal_code, r.building_type, r.date),
+                {
+                    pricePerSqm: r.price_per_sqm !== null ? Number(r.price_per_sqm) : null,
+                    transactionCount: r.transaction_count,
+                },
+            ])),
+            previousRun: run ? { id: run.id, recordsPerPeriod: run.records / run.periods } : null,
+            requestedPeriods: queryConfig.years.length,
+        };
+    }
+
+    /**
+     * Most recent ingestion runs, newest first.
+     */
+    async getRecentIngestionRuns(limit: number = 10): Promise<IngestionRun[]> {
+        const rows = await this.sql`
+            SELECT ir.*, ds.name AS source_name
+            FROM ingestion_run ir
+            LEFT JOIN data_source ds ON ds.id = ir.source_id
+            ORDER BY ir.started_at DESC
+            LIMIT ${limit}
+        `;
+
+        return rows.map((r) => ({
+            id: r.id,
+            sourceName: r.source_name,
+            datasetUrl: r.dataset_url,
+            status: r.status,
+            startedAt: r.started_at,
+            finishedAt: r.finished_at,
+            batchesAttempted: r.batches_attempted,
+            batchesSucceeded: r.batches_succeeded,
+            recordsInserted: r.records_inserted,
+            recordsUpdated: r.records_updated,
+            recordsUnchanged: r.records_unchanged,
+            skipped: r.skipped,
+            errors: r.errors,
+            replayOf: r.replay_of,
+            validation: r.validation_report,
+        }));
+    }
 
-            for (const r of batch) {
-                await this.sql`
-                    INSERT INTO price_data (postal_code, building_type, date, price_per_sqm, transaction_count, source_id)
+    /**
+     * Archives raw PX-Web responses in raw_response, keyed by dataset,
+     * query hash and fetch time, under the run that fetched them so that
+     * getArchivedRun can read them back.
+     *
+     * @returns Number of responses archived
+     */
+    async archiveRawResponses(
+        dataset: string,
+        responses: RawDataset[],
+        ingestionRunId: number
+    ): Promise<number> {
+        if (responses.length === 0) return 0;
+
+        // One at a time: payloads can be several megabytes each
+        await this.transaction(async (tx) => {
+            for (const r of responses) {
+                const query = r.query ?? null;
+                const queryHash = new Bun.CryptoHasher('sha256').update(JSON.stringify(query)).digest('hex');
+                await tx`
+                    INSERT INTO raw_response (dataset, query_hash, query, fetched_at, format, payload, metadata, ingestion_run_id)
                     VALUES (
-                        ${r.postalCode},
-                        ${r.buildingType},
-                        ${r.date.toISOString().slice(0, 10)},
-                        ${r.pricePerSqm},
-                        ${r.transactionCount},
-                        ${sourceId}
+                        ${dataset}, ${queryHash}, ${tx.json(toJson(query))}, ${r.fetchedAt ?? new Date()},
+                        ${r.format}, ${r.data}, ${tx.json(toJson(r.metadata))}, ${ingestionRunId}
                     )
-                    ON CONFLICT (postal_code, building_type, date, source_id) DO UPDATE SET
-                        price_per_sqm = EXCLUDED.price_per_sqm,
-                        transaction_count = EXCLUDED.transaction_count
+                    ON CONFLICT (dataset, query_hash, fetched_at) DO NOTHING
                 `;
-                count++;
             }
+        });
 
-            this.logger.info(
-                `Inserted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${count}/${records.length}`
-            );
-        }
-
-        this.logger.info(`Insert complete: ${count} records`);
-        return count;
+        this.logger.info(`Archived ${responses.length} raw responses for '${dataset}'`);
+        return responses.length;
     }
 
     /**
-     * Full pipeline: store a TransformResult into the database.
-     * Handles source registration, postal codes, mappings, and price data.
+     * Raw responses a run archived for a dataset, in fetch order, with the
+     * run's query config. Without a run id, the latest run that archived
+     * responses for the dataset.
+     *
+     * @returns null if nothing is archived
      */
-    async storeTransformResult(
-        result: TransformResult,
-        sourceDescription?: string,
-        sourceUrl?: string
-    ): Promise<{ sourceId: number; recordsStored: number }> {
-        const sourceId = await this.ensureDataSource(
-            result.sourceName,
-            sourceDescription,
-            sourceUrl
-        );
+    async getArchivedRun(dataset: string, ingestionRunId?: number): Promise<ArchivedRun | null> {
+        const [run] = await this.sql`
+            SELECT ir.id, ir.query_config
+            FROM ingestion_run ir
+            WHERE EXISTS (SELECT 1 FROM raw_response rr WHERE rr.ingestion_run_id = ir.id AND rr.dataset = ${dataset})
+              ${ingestionRunId !== undefined ? this.sql`AND ir.id = ${ingestionRunId}` : this.sql``}
+            ORDER BY ir.id DESC
+            LIMIT 1
+        `;
+        if (!run) return null;
 
-        // Ensure postal codes exist
-        const postalCodes = result.records.map((r) => r.postalCode);
-        await this.ensurePostalCodes(postalCodes);
+        const rows = await this.sql`
+            SELECT format, payload, metadata, query, fetched_at
+            FROM raw_response
+            WHERE ingestion_run_id = ${run.id} AND dataset = ${dataset}
+            ORDER BY fetched_at, id
+        `;
 
-        // Store building type mappings
-        await this.storeBuildingTypeMappings(sourceId, result.buildingTypeMappings);
+        return {
+            ingestionRunId: run.id,
+            queryConfig: run.query_config,
+            responses: rows.map((r) => ({
+                format: r.format,
+                data: r.payload,
+                metadata: r.metadata,
+                query: r.query,
+                fetchedAt: r.fetched_at,
+            })),
+        };
+    }
 
-        // Insert price records
-        const recordsStored = await this.insertPriceRecords(
-            result.records,
-            sourceId
-        );
+    /**
+     * Row counts in price_data per source and year.
+     */
+    async getRowCounts(): Promise<SourceYearCount[]> {
+        const rows = await this.sql`
+            SELECT
+                ds.name AS source_name,
+                EXTRACT(YEAR FROM pd.date)::int AS year,
+                COUNT(*)::int AS rows,
+                COUNT(pd.price_per_sqm)::int AS rows_with_price
+            FROM price_data pd
+            JOIN data_source ds ON ds.id = pd.source_id
+            GROUP BY ds.name, year
+            ORDER BY ds.name, year
+        `;
 
-        this.logger.info(
-            `Pipeline complete for '${result.sourceName}': ${recordsStored} records stored`
-        );
+        return rows.map((r) => ({
+            sourceName: r.source_name,
+            year: r.year,
+            rows: r.rows,
+            rowsWithPrice: r.rows_with_price,
+        }));
+    }
+
+    /**
+     * Reads price_data rows matching the filter, ordered by postal code,
+     * building type and date.
+     */
+    async getPriceData(filter: PriceDataFilter = {}): Promise<PriceDataRow[]> {
+        const rows = await this.sql`
+            SELECT
+                pd.postal_code,
+                pc.name,
+                pc.municipality,
+                pd.building_type,
+                TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+                pd.period_granularity,
+                pd.metric,
+                pd.price_per_sqm,
+                pd.transaction_count,
+                pd.quality_flag,
+                ds.name AS source
+            FROM price_data pd
+            JOIN data_source ds ON ds.id = pd.source_id
+            LEFT JOIN postal_code pc ON pc.code = pd.postal_code
+            WHERE TRUE
+                ${filter.year !== undefined ? this.sql`AND EXTRACT(YEAR FROM pd.date) = ${filter.year}` : this.sql``}
+                ${filter.buildingType ? this.sql`AND pd.building_type = ${filter.buildingType}` : this.sql``}
+                ${filter.sourceName ? this.sql`AND ds.name = ${filter.sourceName}` : this.sql``}
+                ${filter.metric ? this.sql`AND pd.metric = ${filter.metric}` : this.sql``}
+            ORDER BY pd.postal_code, pd.building_type, pd.date
+        `;
 
-        return { sourceId, recordsStored };
+        return rows.map((r) => ({
+            postalCode: r.postal_code,
+            name: r.name,
+            municipality: r.municipality,
+            buildingType: r.building_type,
+            date: r.date,
+            periodGranularity: r.period_granularity,
+            metric: r.metric,
+            pricePerSqm: r.price_per_sqm !== null ? Number(r.price_per_sqm) : null,
+            transactionCount: r.transaction_count,
+            qualityFlag: r.quality_flag,
+            source: r.source,
+        }));
     }
 
     /**
-     * Upsert postal code geometry and metadata from Tilastokeskus WFS data.
-     * Updates name, municipality and geometry for each postal code.
+     * Stores postal code boundaries of one vintage from Tilastokeskus WFS
+     * data in postal_code_boundary. If no later vintage is stored, the
+     * features also become the current name, municipality and geometry in
+     * postal_code; otherwise only postal codes missing from postal_code
+     * are added, without geometry. All batches are written in one transaction.
      *
      * @returns Number of records upserted
      */
     async storePostalCodeGeometries(
-        features: PostalCodeFeature[]
+        features: PostalCodeFeature[],
+        vintage: number
     ): Promise<number> {
         if (features.length === 0) return 0;
 
         this.logger.info(
-            `Storing geometries for ${features.length} postal codes...`
+            `Storing ${vintage} geometries for ${features.length} postal codes...`
         );
 
         let count = 0;
         const BATCH_SIZE = 200;
 
-        for (let i = 0; i < features.length; i += BATCH_SIZE) {
-            const batch = features.slice(i, i + BATCH_SIZE);
+        await this.transaction(async (tx) => {
+            const [row] = await tx`
+                SELECT MAX(vintage) AS latest FROM postal_code_boundary
+            `;
+            const isCurrent = row!.latest === null || vintage >= row!.latest;
+
+            for (let i = 0; i < features.length; i += BATCH_SIZE) {
+                const batch = features.slice(i, i + BATCH_SIZE).map((f) => ({
+                    code: f.postalCode,
+                    name: f.name,
+                    municipality: f.municipality,
+                    geometry: f.geometry ? tx.json(toJson(f.geometry)) : null,
+                }));
+
+                if (isCurrent) {
+                    await tx`
+                        INSERT INTO postal_code ${tx(batch, 'code', 'name', 'municipality', 'geometry')}
+                        ON CONFLICT (code) DO UPDATE SET
+                            name = EXCLUDED.name,
+                            municipality = EXCLUDED.municipality,
+                            geometry = EXCLUDED.geometry
+                    `;
+                } else {
+                    await tx`
+                        INSERT INTO postal_code ${tx(batch, 'code', 'name', 'municipality')}
+                        ON CONFLICT (code) DO NOTHING
+                    `;
+                }
+
+                const boundaries = batch
+                    .filter((b) => b.geometry !== null)
+                    .map((b) => ({ ...b, postal_code: b.code, vintage }));
+                if (boundaries.length > 0) {
+                    await tx`
+                        INSERT INTO postal_code_boundary ${tx(boundaries, 'postal_code', 'vintage', 'name', 'municipality', 'geometry')}
+                        ON CONFLICT (postal_code, vintage) DO UPDATE SET
+                            name = EXCLUDED.name,
+                            municipality = EXCLUDED.municipality,
+                            geometry = EXCLUDED.geometry
+                    `;
+                }
+                count += batch.length;
+
+                this.logger.info(
+                    `Stored batch ${Math.floor(i / BATCH_SIZE) + 1}: ${count}/${features.length}`
+                );
+            }
+        });
 
-            for (const f of batch) {
-                const geometryJson = f.geometry
-                    ? this.sql.json(f.geometry)
-                    : null;
+        this.logger.info(`Geometry store complete: ${count} postal codes (vintage ${vintage})`);
+        return count;
+    }
 
-                await this.sql`
-                    INSERT INTO postal_code (code, name, municipality, geometry)
-                    VALUES (
-                        ${f.postalCode},
-                        ${f.name},
-                        ${f.municipality},
-                        ${geometryJson}
-                    )
-                    ON CONFLICT (code) DO UPDATE SET
-                        name = EXCLUDED.name,
-                        municipality = EXCLUDED.municipality,
+    /**
+     * The newest boundary vintage stored, which is the one postal_code holds.
+     *
+     * @returns null if no boundaries are stored
+     */
+    async getLatestBoundaryVintage(): Promise<number | null> {
+        const [row] = await this.sql`SELECT MAX(vintage) AS latest FROM postal_code_boundary`;
+        return row!.latest;
+    }
+
+    /**
+     * Replaces the simplified geometries of the given postal codes, one row
+     * per vintage and detail level.
+     *
+     * @returns Number of rows written
+     */
+    async storeSimplifiedGeometries(
+        geometries: SimplifiedGeometry[]
+    ): Promise<number> {
+        if (geometries.length === 0) return 0;
+
+        const BATCH_SIZE = 200;
+
+        await this.transaction(async (tx) => {
+            for (let i = 0; i < geometries.length; i += BATCH_SIZE) {
+                const batch = geometries.slice(i, i + BATCH_SIZE).map((g) => ({
+                    postal_code: g.postalCode,
+                    vintage: g.vintage,
+                    detail: g.detail,
+                    geometry: tx.json(toJson(g.geometry)),
+                }));
+
+                await tx`
+                    INSERT INTO postal_code_geometry ${tx(batch, 'postal_code', 'vintage', 'detail', 'geometry')}
+                    ON CONFLICT (postal_code, vintage, detail) DO UPDATE SET
                         geometry = EXCLUDED.geometry
                 `;
-                count++;
+            }
+        });
+
+        this.logger.info(`Stored ${geometries.length} simplified geometries`);
+        return geometries.length;
+    }
+
+    /**
+     * Current geometry of every postal code that has one.
+     */
+    async getPostalCodeGeometries(): Promise<Array<{ code: string; geometry: PolygonalGeometry }>> {
+        const rows = await this.sql`
+            SELECT code, geometry
+            FROM postal_code
+            WHERE geometry IS NOT NULL
+        `;
+        return rows.map((r) => ({ code: r.code, geometry: r.geometry as PolygonalGeometry }));
+    }
+
+    /**
+     * Replaces the postal code adjacency table.
+     *
+     * @returns Number of rows written
+     */
+    async storeAdjacency(adjacency: Adjacency[]): Promise<number> {
+        const BATCH_SIZE = 1000;
+
+        await this.transaction(async (tx) => {
+            await tx`DELETE FROM postal_code_adjacency`;
+            for (let i = 0; i < adjacency.length; i += BATCH_SIZE) {
+                const batch = adjacency.slice(i, i + BATCH_SIZE).map((a) => ({
+                    postal_code: a.postalCode,
+                    neighbour: a.neighbour,
+                    shared_boundary_m: a.sharedBoundaryM,
+                }));
+                await tx`
+                    INSERT INTO postal_code_adjacency ${tx(batch, 'postal_code', 'neighbour', 'shared_boundary_m')}
+                `;
+            }
+        });
+
+        this.logger.info(`Stored ${adjacency.length} postal code adjacencies`);
+        return adjacency.length;
+    }
+
+    /**
+     * Upserts municipalities with their region (maakunta).
+     *
+     * @returns Number of municipalities upserted
+     */
+    async storeMunicipalities(municipalities: MunicipalityInfo[]): Promise<number> {
+        if (municipalities.length === 0) return 0;
+
+        const rows = municipalities.map((m) => ({
+            code: m.code,
+            name: m.name,
+            region_code: m.regionCode,
+            region_name: m.regionName,
+        }));
+
+        await this.transaction(async (tx) => {
+            await tx`
+                INSERT INTO municipality ${tx(rows, 'code', 'name', 'region_code', 'region_name')}
+                ON CONFLICT (code) DO UPDATE SET
+                    name = EXCLUDED.name,
+                    region_code = EXCLUDED.region_code,
+                    region_name = EXCLUDED.region_name
+            `;
+        });
+
+        this.logger.info(`Stored ${rows.length} municipalities`);
+        return rows.length;
+    }
+
+    /**
+     * Stores Paavo demographics, replacing earlier values for the same
+     * postal code and year. Runs in a single transaction.
+     *
+     * @returns Number of records upserted
+     */
+    async storeDemographics(
+        result: DemographicsTransformResult,
+        options: StoreOptions = {}
+    ): Promise<number> {
+        if (result.records.length === 0) return 0;
+
+        this.logger.info(`Storing demographics for ${result.records.length} postal code years...`);
+
+        let count = 0;
+        const BATCH_SIZE = 1000;
+
+        await this.transaction(async (tx) => {
+            const sourceId = await this.upsertDataSource(
+                tx,
+                result.sourceName,
+                options.sourceDescription,
+                options.sourceUrl,
+                options.sourceUpdated
+            );
+
+            const postalCodes = [...new Set(result.records.map((r) => r.postalCode))];
+            await this.insertMissingPostalCodes(tx, postalCodes);
+
+            for (let i = 0; i < result.records.length; i += BATCH_SIZE) {
+                const batch = result.records.slice(i, i + BATCH_SIZE).map((r) => ({
+                    postal_code: r.postalCode,
+                    year: r.year,
+                    population: r.population,
+                    average_age: r.averageAge,
+                    population_0_14: r.population0to14,
+                    population_65_plus: r.population65Plus,
+                    median_household_income: r.medianHouseholdIncome,
+                    dwellings: r.dwellings,
+                    average_dwelling_size: r.averageDwellingSize,
+                    source_id: sourceId,
+                }));
+
+                await tx`
+                    INSERT INTO postal_code_demographics ${tx(batch, 'postal_code', 'year', 'population', 'average_age', 'population_0_14', 'population_65_plus', 'median_household_income', 'dwellings', 'average_dwelling_size', 'source_id')}
+                    ON CONFLICT (postal_code, year) DO UPDATE SET
+                        population = EXCLUDED.population,
+                        average_age = EXCLUDED.average_age,
+                        population_0_14 = EXCLUDED.population_0_14,
+                        population_65_plus = EXCLUDED.population_65_plus,
+                        median_household_income = EXCLUDED.median_household_income,
+                        dwellings = EXCLUDED.dwellings,
+                        average_dwelling_size = EXCLUDED.average_dwelling_size,
+                        source_id = EXCLUDED.source_id
+                `;
+                count += batch.length;
+            }
+        });
+
+        this.logger.info(`Demographics store complete: ${count} records`);
+        return count;
+    }
+
+    /**
+     * Runs `fn` inside a transaction.
+     * postgres.js types TransactionSql via Omit<>, which drops the call
+     * signatures, so the handle is passed on as a plain Sql.
+     */
+    private async transaction<T>(fn: (tx: postgres.Sql) => Promise<T>): Promise<T> {
+        return this.sql.begin((tx) => fn(tx as unknown as postgres.Sql)) as Promise<T>;
+    }
+
+    // ── Transaction-scoped writers ──
+
+    private async upsertDataSource(
+        tx: postgres.Sql,
+        name: string,
+        description?: string,
+        url?: string,
+        sourceUpdated?: Date
+    ): Promise<number> {
+        this.logger.info(`Ensuring data source: ${name}`);
+
+        const rows = await tx`
+            INSERT INTO data_source (name, description, url, last_fetched, source_updated)
+            VALUES (${name}, ${description ?? null}, ${url ?? null}, NOW(), ${sourceUpdated ?? null})
+            ON CONFLICT (name) DO UPDATE SET
+                last_fetched = NOW(),
+                source_updated = COALESCE(EXCLUDED.source_updated, data_source.source_updated)
+            RETURNING id
+        `;
+
+        const id = rows[0]!.id;
+        this.logger.info(`Data source '${name}' → id ${id}`);
+        return id;
+    }
+
+    private async upsertBuildingTypeMappings(
+        tx: postgres.Sql,
+        sourceId: number,
+        mappings: BuildingTypeMapping[]
+    ): Promise<void> {
+        if (mappings.length === 0) return;
+
+        this.logger.info(
+            `Storing ${mappings.length} building type mappings for source ${sourceId}`
+        );
+
+        const rows = mappings.map((m) => ({
+            source_id: sourceId,
+            source_code: m.sourceCode,
+            source_label: m.sourceLabel,
+            building_type: m.canonicalCode,
+        }));
+
+        await tx`
+            INSERT INTO building_type_mapping ${tx(rows, 'source_id', 'source_code', 'source_label', 'building_type')}
+            ON CONFLICT (source_id, source_code) DO UPDATE SET
+                source_label = EXCLUDED.source_label,
+                building_type = EXCLUDED.building_type
+        `;
+    }
+
+    private async insertMissingPostalCodes(
+        tx: postgres.Sql,
+        codes: string[]
+    ): Promise<void> {
+        if (codes.length === 0) return;
+
+        const uniqueCodes = [...new Set(codes)];
+        this.logger.info(`Ensuring ${uniqueCodes.length} postal codes exist`);
+
+        const BATCH_SIZE = 1000;
+        for (let i = 0; i < uniqueCodes.length; i += BATCH_SIZE) {
+            const batch = uniqueCodes.slice(i, i + BATCH_SIZE).map((code) => ({ code }));
+            await tx`
+                INSERT INTO postal_code ${tx(batch, 'code')}
+                ON CONFLICT (code) DO NOTHING
+            `;
+        }
+    }
+
+    private async upsertPriceRecords(
+        tx: postgres.Sql,
+        records: PriceRecord[],
+        sourceId: number,
+        ingestionRunId?: number
+    ): Promise<PriceInsertStats> {
+        const stats: PriceInsertStats = { inserted: 0, updated: 0, unchanged: 0 };
+        if (records.length === 0) return stats;
+
+        this.logger.info(`Inserting ${records.length} price records...`);
+
+        // A multi-row upsert may not touch the same row twice, so keep the
+        // last record for each key
+        const byKey = new Map<string, PriceRecord>();
+        for (const r of records) {
+            byKey.set(priceRecordKey(r.postalCode, r.buildingType, r.date.toISOString().slice(0, 10)), r);
+        }
+        const unique = [...byKey.values()];
+
+        let count = 0;
+        // Batch in chunks to stay well below the bind parameter limit
+        const BATCH_SIZE = 1000;
+
+        for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+            const batch = unique.slice(i, i + BATCH_SIZE);
+
+            const stored = await this.findStoredPrices(tx, batch, sourceId);
+            const { added, changed, unchanged } = classifyPriceRecords(batch, stored);
+
+            const toWrite = [...added, ...changed.map((c) => c.record)].map((r) => ({
+                postal_code: r.postalCode,
+                building_type: r.buildingType,
+                date: r.date.toISOString().slice(0, 10),
+                period_granularity: r.periodGranularity,
+                metric: r.metric,
+                price_per_sqm: r.pricePerSqm,
+                transaction_count: r.transactionCount,
+                quality_flag: r.qualityFlag,
+                source_id: sourceId,
+            }));
+
+            if (toWrite.length > 0) {
+                await tx`
+                    INSERT INTO price_data ${tx(toWrite, 'postal_code', 'building_type', 'date', 'period_granularity', 'metric', 'price_per_sqm', 'transaction_count', 'quality_flag', 'source_id')}
+                    ON CONFLICT (postal_code, building_type, date, source_id) DO UPDATE SET
+                        period_granularity = EXCLUDED.period_granularity,
+                        metric = EXCLUDED.metric,
+                        price_per_sqm = EXCLUDED.price_per_sqm,
+                        transaction_count = EXCLUDED.transaction_count,
+                        quality_flag = EXCLUDED.quality_flag
+                `;
             }
 
+            if (changed.length > 0) {
+                const revisions = changed.map(({ record, stored }) => ({
+                    price_data_id: stored.id,
+                    old_price_per_sqm: stored.pricePerSqm,
+                    new_price_per_sqm: record.pricePerSqm,
+                    old_transaction_count: stored.transactionCount,
+                    new_transaction_count: record.transactionCount,
+                    old_quality_flag: stored.qualityFlag,
+                    new_quality_flag: record.qualityFlag,
+                    ingestion_run_id: ingestionRunId ?? null,
+                }));
+
+                await tx`
+                    INSERT INTO price_revision ${tx(revisions, 'price_data_id', 'old_price_per_sqm', 'new_price_per_sqm', 'old_transaction_count', 'new_transaction_count', 'old_quality_flag', 'new_quality_flag', 'ingestion_run_id')}
+                `;
+            }
+
+            stats.inserted += added.length;
+            stats.updated += changed.length;
+            stats.unchanged += unchanged.length;
+            count += batch.length;
+
             this.logger.info(
-                `Stored batch ${Math.floor(i / BATCH_SIZE) + 1}: ${count}/${features.length}`
+                `Inserted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${count}/${unique.length}`
             );
         }
 
-        this.logger.info(`Geometry store complete: ${count} postal codes`);
-        return count;
+        this.logger.info(
+            `Insert complete: ${stats.inserted} new, ${stats.updated} revised, ${stats.unchanged} unchanged`
+        );
+        return stats;
+    }
+
+    /**
+     * Looks up the stored price_data rows matching a batch of records,
+     * keyed by priceRecordKey.
+     */
+    private async findStoredPrices(
+        tx: postgres.Sql,
+        records: PriceRecord[],
+        sourceId: number
+    ): Promise<Map<string, StoredPrice>> {
+        const rows = await tx`
+            SELECT
+                pd.id,
+                pd.postal_code,
+                pd.building_type,
+                TO_CHAR(pd.date, 'YYYY-MM-DD') AS date,
+                pd.price_per_sqm,
+                pd.transaction_count,
+                pd.quality_flag
+            FROM price_data pd
+            JOIN UNNEST(
+                ${tx.array(records.map((r) => r.postalCode))}::varchar[],
+                ${tx.array(records.map((r) => r.buildingType))}::varchar[],
+                ${tx.array(records.map((r) => r.date.toISOString().slice(0, 10)))}::date[]
+            ) AS incoming(postal_code, building_type, date)
+                ON incoming.postal_code = pd.postal_code
+               AND incoming.building_type = pd.building_type
+               AND incoming.date = pd.date
+            WHERE pd.source_id = ${sourceId}
+        `;
+
+        return new Map(
+            rows.map((r) => [
+                priceRecordKey(r.postal_code, r.building_type, r.date),
+                {
+                    id: r.id,
+                    pricePerSqm: r.price_per_sqm !== null ? Number(r.price_per_sqm) : null,
+                    transactionCount: r.transaction_count,
+                    qualityFlag: r.quality_flag,
+                },
+            ])
+        );
     }
 
     /**
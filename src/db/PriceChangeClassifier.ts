@@ -0,0 +1,67 @@
+import type { PriceRecord, QualityFlag } from '../model/Models.ts';
+
+/**
+ * A price_data row as currently stored.
+ */
+export interface StoredPrice {
+    id: number;
+    pricePerSqm: number | null;
+    transactionCount: number | null;
+    qualityFlag: QualityFlag | null;
+}
+
+/**
+ * Incoming records split by how they relate to what is stored.
+ */
+export interface ClassifiedPriceRecords {
+    added: PriceRecord[];
+    changed: Array<{ record: PriceRecord; stored: StoredPrice }>;
+    unchanged: PriceRecord[];
+}
+
+/**
+ * Key identifying a price_data row within one source.
+ */
+export function priceRecordKey(postalCode: string, buildingType: string, date: string): string {
+    return `${postalCode}|${buildingType}|${date}`;
+}
+
+/**
+ * Classifies incoming records as added, changed or unchanged against the
+ * stored rows (keyed by priceRecordKey). Prices are compared at the
+ * precision price_data stores them (NUMERIC(10,2)); a new quality flag
+ * alone (e.g. a price becoming confidential) is also a change.
+ */
+export function classifyPriceRecords(
+    records: PriceRecord[],
+    stored: Map<string, StoredPrice>
+): ClassifiedPriceRecords {
+    const result: ClassifiedPriceRecords = { added: [], changed: [], unchanged: [] };
+
+    for (const record of records) {
+        const key = priceRecordKey(
+            record.postalCode,
+            record.buildingType,
+            record.date.toISOString().slice(0, 10)
+        );
+        const existing = stored.get(key);
+
+        if (!existing) {
+            result.added.push(record);
+        } else if (
+            roundPrice(record.pricePerSqm) !== roundPrice(existing.pricePerSqm) ||
+            record.transactionCount !== existing.transactionCount ||
+            record.qualityFlag !== existing.qualityFlag
+        ) {
+            result.changed.push({ record, stored: existing });
+        } else {
+            result.unchanged.push(record);
+        }
+    }
+
+    return result;
+}
+
+function roundPrice(price: number | null): number | null {
+    return price === null ? null : Math.round(price * 100) / 100;
+}
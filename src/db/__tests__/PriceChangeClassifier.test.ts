@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'bun:test';
+import { classifyPriceRecords, priceRecordKey } from '../PriceChangeClassifier.ts';
+import type { StoredPrice } from '../PriceChangeClassifier.ts';
+import type { PriceRecord } from '../../model/Models.ts';
+
+function record(postalCode: string, pricePerSqm: number | null, transactionCount: number | null): PriceRecord {
+    return {
+        postalCode,
+        date: new Date(Date.UTC(2023, 0, 1)),
+        periodGranularity: 'year',
+        metric: 'sale',
+        buildingType: 'all',
+        pricePerSqm,
+        transactionCount,
+        qualityFlag: null,
+        sourceName: 'test',
+    };
+}
+
+function stored(entries: Array<[string, StoredPrice]>): Map<string, StoredPrice> {
+    return new Map(entries.map(([code, price]) => [priceRecordKey(code, 'all', '2023-01-01'), price]));
+}
+
+describe('classifyPriceRecords', () => {
+    test('records without a stored row are added', () => {
+        const result = classifyPriceRecords([record('00100', 5000, 10)], new Map());
+
+        expect(result.added).toHaveLength(1);
+        expect(result.changed).toHaveLength(0);
+        expect(result.unchanged).toHaveLength(0);
+    });
+
+    test('identical values are unchanged', () => {
+        const result = classifyPriceRecords(
+            [record('00100', 5000, 10)],
+            stored([['00100', { id: 1, pricePerSqm: 5000, transactionCount: 10, qualityFlag: null }]])
+        );
+
+        expect(result.unchanged).toHaveLength(1);
+    });
+
+    test('a revised price or count is changed and carries the stored row', () => {
+        const result = classifyPriceRecords(
+            [record('00100', 5100, 10), record('00200', 4000, 12)],
+            stored([
+                ['00100', { id: 1, pricePerSqm: 5000, transactionCount: 10, qualityFlag: null }],
+                ['00200', { id: 2, pricePerSqm: 4000, transactionCount: 11, qualityFlag: null }],
+            ])
+        );
+
+        expect(result.changed.map((c) => c.stored.id)).toEqual([1, 2]);
+        expect(result.changed[0]!.record.pricePerSqm).toBe(5100);
+    });
+
+    test('prices are compared at stored precision', () => {
+        const result = classifyPriceRecords(
+            [record('00100', 5000.001, 10)],
+            stored([['00100', { id: 1, pricePerSqm: 5000, transactionCount: 10, qualityFlag: null }]])
+        );
+
+        expect(result.unchanged).toHaveLength(1);
+    });
+
+    test('a value becoming null counts as a change', () => {
+        const result = classifyPriceRecords(
+            [record('00100', null, 10)],
+            stored([['00100', { id: 1, pricePerSqm: 5000, transactionCount: 10, qualityFlag: null }]])
+        );
+
+        expect(result.changed).toHaveLength(1);
+    });
+
+    test('a new quality flag alone counts as a change', () => {
+        const suppressed = { ...record('00100', null, null), qualityFlag: 'confidential' as const };
+        const result = classifyPriceRecords(
+            [suppressed],
+            stored([['00100', { id: 1, pricePerSqm: null, transactionCount: null, qualityFlag: null }]])
+        );
+
+        expect(result.changed).toHaveLength(1);
+    });
+});
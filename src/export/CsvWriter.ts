@@ -0,0 +1,47 @@
+/**
+ * A CSV column: header text and how to read the cell from a row.
+ */
+export interface CsvColumn<T> {
+    header: string;
+    value: (row: T) => string | number | null;
+}
+
+export interface CsvOptions {
+    delimiter?: string;         // Default ','
+    decimalSeparator?: string;  // Used when writing numbers; default '.'
+    bom?: boolean;              // Prefix a UTF-8 byte order mark; default false
+}
+
+/**
+ * What Excel expects in a Finnish locale: ';' between fields, decimal
+ * comma, and a BOM so that å/ä/ö are read as UTF-8.
+ */
+export const FINNISH_CSV_OPTIONS: CsvOptions = {
+    delimiter: ';',
+    decimalSeparator: ',',
+    bom: true,
+};
+
+/**
+ * Serializes rows to CSV (RFC 4180 quoting, CRLF line endings).
+ * Null cells are written as empty fields.
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[], options: CsvOptions = {}): string {
+    const delimiter = options.delimiter ?? ',';
+    const decimalSeparator = options.decimalSeparator ?? '.';
+
+    const escape = (cell: string | number | null): string => {
+        if (cell === null) return '';
+        const text = typeof cell === 'number' ? String(cell).replace('.', decimalSeparator) : cell;
+        return /["\r\n]/.test(text) || text.includes(delimiter)
+            ? `"${text.replace(/"/g, '""')}"`
+            : text;
+    };
+
+    const lines = [columns.map((c) => escape(c.header)).join(delimiter)];
+    for (const row of rows) {
+        lines.push(columns.map((c) => escape(c.value(row))).join(delimiter));
+    }
+
+    return (options.bom ? '\uFEFF' : '') + lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,106 @@
+/**
+ * A category dimension of a json-stat2 dataset: which category a row
+ * belongs to, and optionally a human-readable label for it.
+ */
+export interface JsonStatDimension<T> {
+    id: string;                             // e.g. 'Postinumero'
+    label: string;
+    code: (row: T) => string;
+    categoryLabel?: (row: T) => string | null;
+}
+
+/**
+ * A measure written as a category of the content dimension (PxWeb's
+ * 'Tiedot'), e.g. price per m² or the number of transactions.
+ */
+export interface JsonStatMeasure<T> {
+    code: string;                           // e.g. 'keskihinta_aritm_nw'
+    label: string;
+    unit?: string;                          // e.g. 'eur/m2'
+    decimals?: number;
+    value: (row: T) => number | null;
+}
+
+export interface JsonStatDataset<T> {
+    label: string;
+    source?: string;
+    updated?: string;
+    dimensions: JsonStatDimension<T>[];
+    measureDimension: { id: string; label: string };
+    measures: JsonStatMeasure<T>[];
+}
+
+/**
+ * Serializes rows to a json-stat2 dataset laid out the way PxWeb returns
+ * them, so `parseJsonStat2` (and other PxWeb-aware tools) can read it.
+ *
+ * Category order follows first appearance in `rows`; the content dimension
+ * comes last. Cells without a row, and null measures, are written as null.
+ * Rows that share every category overwrite each other.
+ */
+export function toJsonStat2<T>(rows: T[], dataset: JsonStatDataset<T>): string {
+    const categories = dataset.dimensions.map(() => new Map<string, string | null>());
+
+    for (const row of rows) {
+        dataset.dimensions.forEach((dim, i) => {
+            const code = dim.code(row);
+            if (!categories[i]!.has(code)) {
+                categories[i]!.set(code, dim.categoryLabel?.(row) ?? null);
+            }
+        });
+    }
+
+    const ids = [...dataset.dimensions.map((d) => d.id), dataset.measureDimension.id];
+    const sizes = [...categories.map((c) => c.size), dataset.measures.length];
+    const strides = sizes.map((_, i) => sizes.slice(i + 1).reduce((a, b) => a * b, 1));
+    const total = sizes.reduce((a, b) => a * b, 1);
+
+    const indexOf = categories.map((c) => new Map([...c.keys()].map((code, i) => [code, i])));
+    const value: (number | null)[] = new Array(total).fill(null);
+
+    for (const row of rows) {
+        const base = dataset.dimensions.reduce(
+            (sum, dim, i) => sum + indexOf[i]!.get(dim.code(row))! * strides[i]!,
+            0
+        );
+        dataset.measures.forEach((measure, m) => {
+            value[base + m] = measure.value(row);
+        });
+    }
+
+    const dimension: Record<string, object> = {};
+    dataset.dimensions.forEach((dim, i) => {
+        const codes = [...categories[i]!.keys()];
+        dimension[dim.id] = {
+            label: dim.label,
+            category: {
+                index: Object.fromEntries(codes.map((code, j) => [code, j])),
+                label: Object.fromEntries(codes.map((code) => [code, categories[i]!.get(code) ?? code])),
+            },
+        };
+    });
+    dimension[dataset.measureDimension.id] = {
+        label: dataset.measureDimension.label,
+        category: {
+            index: Object.fromEntries(dataset.measures.map((m, j) => [m.code, j])),
+            label: Object.fromEntries(dataset.measures.map((m) => [m.code, m.label])),
+            unit: Object.fromEntries(dataset.measures.map((m) => [m.code, {
+                base: m.unit ?? '',
+                decimals: m.decimals ?? 0,
+            }])),
+        },
+    };
+
+    return JSON.stringify({
+        version: '2.0',
+        class: 'dataset',
+        label: dataset.label,
+        ...(dataset.source !== undefined ? { source: dataset.source } : {}),
+        ...(dataset.updated !== undefined ? { updated: dataset.updated } : {}),
+        id: ids,
+        size: sizes,
+        role: { metric: [dataset.measureDimension.id] },
+        dimension,
+        value,
+    });
+}
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { toCsv, FINNISH_CSV_OPTIONS } from '../CsvWriter.ts';
+import type { CsvColumn } from '../CsvWriter.ts';
+
+interface Row {
+    name: string;
+    price: number | null;
+}
+
+const COLUMNS: CsvColumn<Row>[] = [
+    { header: 'name', value: (r) => r.name },
+    { header: 'price', value: (r) => r.price },
+];
+
+const ROWS: Row[] = [
+    { name: 'Keskusta', price: 6123.45 },
+    { name: 'Töölö; etelä', price: null },
+];
+
+describe('toCsv', () => {
+    test('defaults to comma delimiter and decimal point', () => {
+        expect(toCsv(ROWS, COLUMNS)).toBe('name,price\r\nKeskusta,6123.45\r\nTöölö; etelä,\r\n');
+    });
+
+    test('Finnish preset uses semicolons, decimal comma and a BOM', () => {
+        expect(toCsv(ROWS, COLUMNS, FINNISH_CSV_OPTIONS))
+            .toBe('\uFEFFname;price\r\nKeskusta;6123,45\r\n"Töölö; etelä";\r\n');
+    });
+
+    test('quotes numbers whose decimal separator is the delimiter', () => {
+        expect(toCsv([ROWS[0]!], COLUMNS, { decimalSeparator: ',' })).toBe('name,price\r\nKeskusta,"6123,45"\r\n');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'bun:test';
+import { toJsonStat2 } from '../JsonStatWriter.ts';
+import { parseJsonStat2, cellValue } from '../../transformer/JsonStat.ts';
+import type { JsonStatDataset } from '../JsonStatWriter.ts';
+
+interface Row {
+    postalCode: string;
+    year: string;
+    price: number | null;
+    count: number;
+}
+
+const DATASET: JsonStatDataset<Row> = {
+    label: 'Test prices',
+    dimensions: [
+        { id: 'Vuosi', label: 'Year', code: (r) => r.year },
+        { id: 'Postinumero', label: 'Postal code', code: (r) => r.postalCode },
+    ],
+    measureDimension: { id: 'Tiedot', label: 'Information' },
+    measures: [
+        { code: 'price', label: 'Price', unit: 'eur/m2', value: (r) => r.price },
+        { code: 'count', label: 'Transactions', value: (r) => r.count },
+    ],
+};
+
+describe('toJsonStat2', () => {
+    test('round-trips through parseJsonStat2', () => {
+        const rows: Row[] = [
+            { postalCode: '00100', year: '2023', price: 5000, count: 10 },
+            { postalCode: '00200', year: '2023', price: null, count: 2 },
+            { postalCode: '00100', year: '2024', price: 5200, count: 12 },
+        ];
+
+        const cube = parseJsonStat2(toJsonStat2(rows, DATASET));
+
+        expect(cube.dimensionIds).toEqual(['Vuosi', 'Postinumero', 'Tiedot']);
+        expect(cube.sizes).toEqual([2, 2, 2]);
+        expect(cube.categories).toEqual([['2023', '2024'], ['00100', '00200'], ['price', 'count']]);
+
+        const at = (y: number, p: number, m: number) =>
+            cellValue(cube, y * cube.strides[0]! + p * cube.strides[1]! + m);
+        expect(at(0, 0, 0)).toBe(5000);
+        expect(at(0, 1, 0)).toBeNull();
+        expect(at(0, 1, 1)).toBe(2);
+        expect(at(1, 0, 1)).toBe(12);
+        expect(at(1, 1, 0)).toBeNull();  // No row for 00200 in 2024
+    });
+
+    test('category labels default to the code', () => {
+        const json = JSON.parse(toJsonStat2([{ postalCode: '00100', year: '2024', price: 1, count: 1 }], DATASET));
+        expect(json.dimension.Postinumero.category.label).toEqual({ '00100': '00100' });
+        expect(json.dimension.Tiedot.category.unit.price).toEqual({ base: 'eur/m2', decimals: 0 });
+    });
+});
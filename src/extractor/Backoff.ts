@@ -0,0 +1,53 @@
+import type { RetryOptions } from '../model/Models.ts';
+
+/**
+ * Default retry policy for PX-Web requests.
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+};
+
+/**
+ * Computes the wait before retry number `attempt` (0-based) using
+ * "full jitter" exponential backoff: a random delay between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^attempt).
+ *
+ * If the server sent a Retry-After, we never wait less than that.
+ */
+export function computeBackoffDelay(
+    attempt: number,
+    options: RetryOptions,
+    retryAfterMs: number | null = null,
+    random: () => number = Math.random
+): number {
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    const jittered = Math.round(random() * ceiling);
+    return retryAfterMs !== null ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+/**
+ * Parses an HTTP Retry-After header, which is either a number of seconds
+ * or an HTTP date. Returns the wait in milliseconds, or null if absent/invalid.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+    if (!header) return null;
+
+    const trimmed = header.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return parseInt(trimmed, 10) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) return null;
+    return Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed HTTP status is worth retrying: rate limiting (429),
+ * request timeout (408) and server-side errors (5xx).
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
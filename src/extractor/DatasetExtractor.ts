@@ -7,11 +7,45 @@ import type {
     QueryConfig,
     VariableSelection,
     Selection,
-    ResponseFormat
+    ResponseFormat,
+    ExtractorOptions,
+    RetryOptions,
+    BatchExtractionResult,
+    DatasetDimensions,
+    FailedBatch
 } from '../model/Models.ts';
-import { DEFAULT_BUILDING_TYPES, DEFAULT_METRICS } from '../config/postalCodes.ts';
+import { DEFAULT_BUILDING_TYPES } from '../config/postalCodes.ts';
+import { STATFIN_PRICES_BY_POSTAL_CODE } from '../transformer/StatfinDatasets.ts';
+import { periodYear } from '../utils/Period.ts';
+import { TokenBucket } from './RateLimiter.ts';
+import {
+    DEFAULT_RETRY_OPTIONS,
+    computeBackoffDelay,
+    isRetryableStatus,
+    parseRetryAfter
+} from './Backoff.ts';
 import type { Logger } from 'pino';
 
+/**
+ * stat.fi's published PX-Web limit: 10 requests per 10 seconds.
+ */
+const STATFIN_RATE_LIMIT = { requests: 10, windowMs: 10_000 };
+
+/**
+ * Error for a non-OK PX-Web response, carrying what the retry logic needs.
+ */
+export class PxWebRequestError extends Error {
+    status: number;
+    retryAfterMs: number | null;
+
+    constructor(message: string, status: number, retryAfterMs: number | null) {
+        super(message);
+        this.name = 'PxWebRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
 /**
  * Extracts raw datasets from PX-Web API based on metadata
  */
@@ -24,9 +58,16 @@ export class DatasetExtractor {
      * @return RawDataset containing the extracted data
      */
     private logger: Logger;
+    private retryOptions: RetryOptions;
+    private rateLimiter: TokenBucket;
+    private dimensions: DatasetDimensions;
 
-    constructor() {
+    constructor(options: ExtractorOptions = {}) {
         this.logger = createLogger('DatasetExtractor');
+        this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+        this.dimensions = options.dimensions ?? STATFIN_PRICES_BY_POSTAL_CODE.dimensions;
+        const rateLimit = options.rateLimit ?? STATFIN_RATE_LIMIT;
+        this.rateLimiter = TokenBucket.forWindowLimit(rateLimit.requests, rateLimit.windowMs);
     }
 
     async extract(
@@ -37,7 +78,7 @@ export class DatasetExtractor {
         this.logger.info("Extracting dataset (default query — all values)...");
         const query = this.buildDefaultQuery(metadata, format);
 
-        let fetchedData: RawDataset = await this.executeQuery(apiUrl, metadata, query, format);
+        let fetchedData: RawDataset = await this.executeWithRetry(apiUrl, metadata, query, format);
         this.logger.info("Extracting dataset complete");
         this.logger.info(`Format: ${fetchedData.format}`);
         this.logger.info(`Data size: ${fetchedData.data.length} bytes`);
@@ -46,7 +87,9 @@ export class DatasetExtractor {
 
     /**
      * Extracts dataset using a QueryConfig, batching postal codes to avoid
-     * API response size limits. Returns one RawDataset per batch.
+     * API response size limits. Returns one RawDataset per successful batch;
+     * batches that still fail after retries are listed in `failedBatches`
+     * and the result status becomes 'partial'.
      */
     async extractBatched(
         metadata: DatasetMetadata,
@@ -54,16 +97,17 @@ export class DatasetExtractor {
         config: QueryConfig,
         batchSize: number = 30,
         format: string = 'json-stat2'
-    ): Promise<RawDataset[]> {
+    ): Promise<BatchExtractionResult> {
         // Validate postal codes and years against metadata
         const validConfig = this.validateConfig(metadata, config);
         const postalBatches = this.chunk(validConfig.postalCodes, batchSize);
         this.logger.info(`Extracting ${validConfig.postalCodes.length} postal codes in ${postalBatches.length} batch(es), years: ${validConfig.years.join(',')}`);
 
         const results: RawDataset[] = [];
+        const failedBatches: FailedBatch[] = [];
 
         for (let i = 0; i < postalBatches.length; i++) {
-            const batch = postalBatches[i];
+            const batch = postalBatches[i]!;
             this.logger.info(`Batch ${i + 1}/${postalBatches.length}: ${batch.length} postal codes (${batch[0]}–${batch[batch.length - 1]})`);
 
             const query = this.buildConfigQuery({
@@ -72,38 +116,51 @@ export class DatasetExtractor {
             }, format);
 
             try {
-                const raw = await this.executeQuery(apiUrl, metadata, query, format);
+                const raw = await this.executeWithRetry(apiUrl, metadata, query, format);
                 this.logger.info(`  → ${raw.data.length} bytes`);
                 results.push(raw);
             } catch (err) {
-                this.logger.warn(`  → Batch ${i + 1} failed: ${err instanceof Error ? err.message : err}`);
+                const message = err instanceof Error ? err.message : String(err);
+                this.logger.error(`  → Batch ${i + 1} failed after retries: ${message}`);
+                failedBatches.push({ index: i, postalCodes: batch, error: message });
                 // Continue with remaining batches
             }
+        }
 
-            // Rate limit: wait between requests (skip after last batch)
-            if (i < postalBatches.length - 1) {
-                await this.delay(500);
-            }
+        const status = failedBatches.length === 0 ? 'complete' : 'partial';
+        const summary = `Extraction ${status}: ${results.length}/${postalBatches.length} batches succeeded`;
+        if (status === 'complete') {
+            this.logger.info(summary);
+        } else {
+            this.logger.warn(summary);
         }
 
-        this.logger.info(`Extraction complete: ${results.length}/${postalBatches.length} batches succeeded`);
-        return results;
+        return {
+            datasets: results,
+            batchesAttempted: postalBatches.length,
+            batchesSucceeded: results.length,
+            failedBatches,
+            status,
+        };
     }
 
     /**
      * Validates QueryConfig against metadata, filtering out codes that don't exist in the API.
+     * For sub-year time dimensions a plain year ('2024') selects all of that
+     * year's periods ('2024Q1'..'2024Q4'); exact period codes also work.
      */
     private validateConfig(metadata: DatasetMetadata, config: QueryConfig): QueryConfig {
-        const postalVar = metadata.variables.find(v => v.code === 'Postinumero');
-        const yearVar = metadata.variables.find(v => v.code === 'Vuosi');
-        const typeVar = metadata.variables.find(v => v.code === 'Talotyyppi');
+        const postalVar = metadata.variables.find(v => v.code === this.dimensions.area);
+        const yearVar = metadata.variables.find(v => v.code === this.dimensions.time);
+        const typeVar = metadata.variables.find(v => v.code === this.dimensions.buildingType);
 
         const validPostal = postalVar
             ? config.postalCodes.filter(pc => postalVar.values.includes(pc))
             : config.postalCodes;
 
+        const requested = new Set(config.years);
         const validYears = yearVar
-            ? config.years.filter(y => yearVar.values.includes(y))
+            ? yearVar.values.filter(p => requested.has(p) || requested.has(periodYear(p)))
             : config.years;
 
         const buildingTypes = config.buildingTypes ?? DEFAULT_BUILDING_TYPES;
@@ -112,7 +169,8 @@ export class DatasetExtractor {
             : buildingTypes;
 
         const removedPostal = config.postalCodes.length - validPostal.length;
-        const removedYears = config.years.length - validYears.length;
+        const matchedYears = new Set(validYears.flatMap(p => [p, periodYear(p)]));
+        const removedYears = config.years.filter(y => !matchedYears.has(y)).length;
         if (removedPostal > 0) {
             this.logger.info(`Filtered out ${removedPostal} postal codes not found in API`);
         }
@@ -132,14 +190,19 @@ export class DatasetExtractor {
      * Builds a query from QueryConfig
      */
     private buildConfigQuery(config: QueryConfig, format: string): PxWebQuery {
+        const { time, area, buildingType, metric } = this.dimensions;
         const buildingTypes = config.buildingTypes ?? DEFAULT_BUILDING_TYPES;
-        const metrics = config.metrics ?? DEFAULT_METRICS;
+        const metrics = config.metrics ?? this.dimensions.metrics.map(m => m.sourceCode);
 
         const selections: VariableSelection[] = [
-            { code: 'Vuosi', selection: { filter: 'item', values: config.years } },
-            { code: 'Postinumero', selection: { filter: 'item', values: config.postalCodes } },
-            { code: 'Talotyyppi', selection: { filter: 'item', values: buildingTypes } },
-            { code: 'Tiedot', selection: { filter: 'item', values: metrics } },
+            { code: time, selection: { filter: 'item', values: config.years } },
+            { code: area, selection: { filter: 'item', values: config.postalCodes } },
+            ...(buildingType ? [{ code: buildingType, selection: { filter: 'item', values: buildingTypes } }] : []),
+            { code: metric, selection: { filter: 'item', values: metrics } },
+            ...Object.entries(this.dimensions.fixedSelections ?? {}).map(([code, value]) => ({
+                code,
+                selection: { filter: 'item', values: [value] },
+            })),
         ];
 
         return { query: selections, response: { format } };
@@ -157,6 +220,46 @@ export class DatasetExtractor {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
+    /**
+     * Executes the query, retrying rate-limited (429), timed-out and 5xx
+     * responses as well as network errors with jittered exponential backoff.
+     * Every attempt first takes a token from the rate limiter.
+     */
+    private async executeWithRetry(
+        apiUrl: string,
+        metadata: DatasetMetadata,
+        query: PxWebQuery,
+        format: string
+    ): Promise<RawDataset> {
+        const { maxRetries } = this.retryOptions;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.rateLimiter.acquire();
+
+            try {
+                return await this.executeQuery(apiUrl, metadata, query, format);
+            } catch (err) {
+                const httpError = err instanceof PxWebRequestError ? err : null;
+                const retryable = httpError ? isRetryableStatus(httpError.status) : true;
+
+                if (!retryable || attempt >= maxRetries) {
+                    throw err;
+                }
+
+                if (httpError?.status === 429) {
+                    // Server says we're over budget — don't spend the remaining burst
+                    this.rateLimiter.drain();
+                }
+
+                const waitMs = computeBackoffDelay(attempt, this.retryOptions, httpError?.retryAfterMs ?? null);
+                this.logger.warn(
+                    `  → Attempt ${attempt + 1}/${maxRetries + 1} failed (${err instanceof Error ? err.message : err}), retrying in ${waitMs} ms`
+                );
+                await this.delay(waitMs);
+            }
+        }
+    }
+
     /**
      * Extracts dataset with a custom query
      * @param metadata Dataset metadata
@@ -171,7 +274,7 @@ export class DatasetExtractor {
         query: PxWebQuery,
         format: string = 'json-stat2'
     ): Promise<RawDataset> {
-        return this.executeQuery(apiUrl, metadata, query, format);
+        return this.executeWithRetry(apiUrl, metadata, query, format);
     }
 
     /**
@@ -193,7 +296,7 @@ export class DatasetExtractor {
     }
 
     /**
-     * Executes the query against the PX-Web API
+     * Executes the query against the PX-Web API (single attempt)
      */
     private async executeQuery(
         apiUrl: string,
@@ -216,8 +319,12 @@ export class DatasetExtractor {
         if (!response.ok) {
             const body = await response.text();
             let err: string = `Failed to extract dataset. Status code: ${response.status}, Body: ${body}`;
-            this.logger.error(err);
-            throw new Error(err);
+            this.logger.debug(err);
+            throw new PxWebRequestError(
+                err,
+                response.status,
+                parseRetryAfter(response.headers.get('Retry-After'))
+            );
         }
 
         const data = await response.text();
@@ -225,7 +332,9 @@ export class DatasetExtractor {
         return {
             format,
             data,
-            metadata
+            metadata,
+            query,
+            fetchedAt: new Date()
         };
     }
 
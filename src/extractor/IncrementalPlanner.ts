@@ -0,0 +1,51 @@
+/**
+ * Inputs for deciding which years an incremental fetch needs. For sub-year
+ * datasets the "years" are period codes ('2024Q3'), which sort the same way.
+ */
+export interface IncrementalPlanInput {
+    availableYears: string[];       // Time values in the dataset metadata
+    fromYear: string;               // Earliest year we care about
+    storedYears: string[];          // Years already in price_data for this source
+    tableUpdated: Date | null;      // Dataset 'updated' timestamp from metadata
+    lastSourceUpdated: Date | null; // 'updated' timestamp as of our last complete run
+    revisionWindow: number;         // How many recent years stat.fi may revise
+}
+
+export interface IncrementalPlan {
+    years: string[];                // Years to fetch, ascending
+    missingYears: string[];
+    revisedYears: string[];
+    tableRevised: boolean;
+}
+
+/**
+ * Decides which years an incremental fetch should pull.
+ *
+ * - Years published in the dataset but not stored yet are always fetched.
+ * - If the dataset's 'updated' timestamp is newer than what we saw on our
+ *   last complete run, stat.fi has republished the table. The metadata
+ *   doesn't say which figures changed, so we re-fetch the most recent
+ *   `revisionWindow` stored years, where preliminary figures get revised.
+ */
+export function planIncrementalFetch(input: IncrementalPlanInput): IncrementalPlan {
+    const candidates = input.availableYears
+        .filter((y) => y >= input.fromYear)
+        .sort();
+    const stored = new Set(input.storedYears);
+
+    const missingYears = candidates.filter((y) => !stored.has(y));
+
+    const tableRevised =
+        stored.size > 0 &&
+        (input.lastSourceUpdated === null ||
+            (input.tableUpdated !== null && input.tableUpdated > input.lastSourceUpdated));
+
+    // slice(-0) would keep every year, so a zero window needs its own case
+    const revisedYears = tableRevised && input.revisionWindow > 0
+        ? candidates.filter((y) => stored.has(y)).slice(-input.revisionWindow)
+        : [];
+
+    const years = [...new Set([...missingYears, ...revisedYears])].sort();
+
+    return { years, missingYears, revisedYears, tableRevised };
+}
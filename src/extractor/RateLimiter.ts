@@ -0,0 +1,69 @@
+/**
+ * Token-bucket rate limiter.
+ *
+ * The bucket holds up to `capacity` tokens and refills continuously at
+ * `refillPerMs` tokens per millisecond. Each request consumes one token;
+ * when the bucket is empty, `acquire()` waits until a token is available.
+ */
+export class TokenBucket {
+    private capacity: number;
+    private refillPerMs: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(capacity: number, refillPerMs: number) {
+        if (capacity < 1 || refillPerMs <= 0) {
+            throw new Error(`Invalid token bucket: capacity=${capacity}, refillPerMs=${refillPerMs}`);
+        }
+        this.capacity = capacity;
+        this.refillPerMs = refillPerMs;
+        this.tokens = capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Creates a bucket that never exceeds `requests` calls in any sliding
+     * window of `windowMs`. A bucket admits at most capacity + rate * window
+     * requests per window, so both halves of the budget are split between
+     * the initial burst and the refill rate.
+     *
+     * Example: stat.fi allows 10 requests per 10 s → burst of 5, then one
+     * request every 2 s.
+     */
+    static forWindowLimit(requests: number, windowMs: number): TokenBucket {
+        const burst = Math.max(1, Math.floor(requests / 2));
+        const refill = requests - burst;
+        return new TokenBucket(burst, Math.max(refill, 1) / windowMs);
+    }
+
+    /**
+     * Waits until a token is available and consumes it.
+     */
+    async acquire(): Promise<void> {
+        for (;;) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+    }
+
+    /**
+     * Empties the bucket, e.g. after the server has signalled HTTP 429,
+     * so subsequent requests wait for a fresh refill.
+     */
+    drain(): void {
+        this.refill();
+        this.tokens = 0;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsed = now - this.lastRefill;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+        this.lastRefill = now;
+    }
+}
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'bun:test';
+import { planIncrementalFetch } from '../IncrementalPlanner.ts';
+import type { IncrementalPlanInput } from '../IncrementalPlanner.ts';
+
+const BASE: IncrementalPlanInput = {
+    availableYears: ['2019', '2020', '2021', '2022', '2023', '2024'],
+    fromYear: '2020',
+    storedYears: ['2020', '2021', '2022', '2023', '2024'],
+    tableUpdated: new Date('2025-01-20T06:00:00Z'),
+    lastSourceUpdated: new Date('2025-01-20T06:00:00Z'),
+    revisionWindow: 2,
+};
+
+describe('planIncrementalFetch', () => {
+    test('nothing to do when all years are stored and the table is unchanged', () => {
+        const plan = planIncrementalFetch(BASE);
+
+        expect(plan.years).toEqual([]);
+        expect(plan.tableRevised).toBe(false);
+    });
+
+    test('newly published year is fetched without re-fetching old ones', () => {
+        const plan = planIncrementalFetch({
+            ...BASE,
+            availableYears: [...BASE.availableYears, '2025'],
+        });
+
+        expect(plan.years).toEqual(['2025']);
+        expect(plan.missingYears).toEqual(['2025']);
+    });
+
+    test('revised table → latest stored years are re-fetched', () => {
+        const plan = planIncrementalFetch({
+            ...BASE,
+            availableYears: [...BASE.availableYears, '2025'],
+            tableUpdated: new Date('2026-01-22T06:00:00Z'),
+        });
+
+        expect(plan.tableRevised).toBe(true);
+        expect(plan.revisedYears).toEqual(['2023', '2024']);
+        expect(plan.years).toEqual(['2023', '2024', '2025']);
+    });
+
+    test('years before fromYear are ignored', () => {
+        const plan = planIncrementalFetch({ ...BASE, storedYears: [] });
+
+        expect(plan.years).toEqual(['2020', '2021', '2022', '2023', '2024']);
+        expect(plan.tableRevised).toBe(false);
+    });
+
+    test('unknown last update with stored data counts as revised', () => {
+        const plan = planIncrementalFetch({ ...BASE, lastSourceUpdated: null });
+
+        expect(plan.tableRevised).toBe(true);
+        expect(plan.years).toEqual(['2023', '2024']);
+    });
+
+    test('a zero revision window re-fetches no stored years', () => {
+        const plan = planIncrementalFetch({
+            ...BASE,
+            availableYears: [...BASE.availableYears, '2025'],
+            tableUpdated: new Date('2026-01-22T06:00:00Z'),
+            revisionWindow: 0,
+        });
+
+        expect(plan.tableRevised).toBe(true);
+        expect(plan.revisedYears).toEqual([]);
+        expect(plan.years).toEqual(['2025']);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test';
+import { TokenBucket } from '../RateLimiter.ts';
+import { computeBackoffDelay, parseRetryAfter, isRetryableStatus } from '../Backoff.ts';
+import type { RetryOptions } from '../../model/Models.ts';
+
+const RETRY: RetryOptions = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe('TokenBucket', () => {
+    test('burst is served immediately, then requests are spaced by the refill rate', async () => {
+        // 4 requests per 200 ms → burst of 2, then one token every 100 ms
+        const bucket = TokenBucket.forWindowLimit(4, 200);
+
+        const start = Date.now();
+        await bucket.acquire();
+        await bucket.acquire();
+        expect(Date.now() - start).toBeLessThan(50);
+
+        await bucket.acquire();
+        await bucket.acquire();
+        expect(Date.now() - start).toBeGreaterThanOrEqual(180);
+    });
+
+    test('drain forces the next request to wait for a refill', async () => {
+        const bucket = new TokenBucket(5, 1 / 50);
+        bucket.drain();
+
+        const start = Date.now();
+        await bucket.acquire();
+        expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    });
+
+    test('rejects a bucket that can never refill', () => {
+        expect(() => new TokenBucket(0, 1)).toThrow();
+        expect(() => new TokenBucket(1, 0)).toThrow();
+    });
+});
+
+describe('Backoff', () => {
+    test('delay grows exponentially and is capped', () => {
+        const max = () => 1; // worst case of the jitter
+        expect(computeBackoffDelay(0, RETRY, null, max)).toBe(100);
+        expect(computeBackoffDelay(1, RETRY, null, max)).toBe(200);
+        expect(computeBackoffDelay(2, RETRY, null, max)).toBe(400);
+        expect(computeBackoffDelay(10, RETRY, null, max)).toBe(1000);
+    });
+
+    test('jitter scales the delay between 0 and the ceiling', () => {
+        expect(computeBackoffDelay(2, RETRY, null, () => 0)).toBe(0);
+        expect(computeBackoffDelay(2, RETRY, null, () => 0.5)).toBe(200);
+    });
+
+    test('never waits less than Retry-After', () => {
+        expect(computeBackoffDelay(0, RETRY, 5000, () => 1)).toBe(5000);
+    });
+
+    test('parses Retry-After as seconds or HTTP date', () => {
+        const now = Date.parse('2025-01-01T12:00:00Z');
+        expect(parseRetryAfter('7', now)).toBe(7000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 12:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 11:00:00 GMT', now)).toBe(0);
+        expect(parseRetryAfter(null, now)).toBeNull();
+        expect(parseRetryAfter('soon', now)).toBeNull();
+    });
+
+    test('only rate limiting, timeouts and server errors are retryable', () => {
+        expect(isRetryableStatus(429)).toBe(true);
+        expect(isRetryableStatus(408)).toBe(true);
+        expect(isRetryableStatus(503)).toBe(true);
+        expect(isRetryableStatus(400)).toBe(false);
+        expect(isRetryableStatus(404)).toBe(false);
+    });
+});
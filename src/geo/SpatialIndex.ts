@@ -0,0 +1,73 @@
+import { pointInRing, polygonsOf } from './dissolve.ts';
+import type { PolygonalGeometry, Position } from '../model/Models.ts';
+
+/** [west, south, east, north] in degrees */
+export type BoundingBox = [number, number, number, number];
+
+export function boundingBox(geometry: PolygonalGeometry): BoundingBox {
+    const bbox: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [lon, lat] of polygonsOf(geometry).flat(2)) {
+        bbox[0] = Math.min(bbox[0], lon);
+        bbox[1] = Math.min(bbox[1], lat);
+        bbox[2] = Math.max(bbox[2], lon);
+        bbox[3] = Math.max(bbox[3], lat);
+    }
+    return bbox;
+}
+
+/**
+ * Whether a position lies inside a polygon or multipolygon: inside some
+ * exterior ring and none of that polygon's holes.
+ */
+export function containsPoint(geometry: PolygonalGeometry, point: Position): boolean {
+    return polygonsOf(geometry).some(([exterior, ...holes]) =>
+        exterior !== undefined && pointInRing(point, exterior) && !holes.some((hole) => pointInRing(point, hole))
+    );
+}
+
+/**
+ * In-memory index of areas for point lookups. Bounding boxes are bucketed
+ * into a regular grid, so a lookup only tests the few areas whose box
+ * covers the point's cell before running point-in-polygon.
+ */
+export class SpatialIndex<T> {
+    private cellSize: number;
+    private cells = new Map<string, Array<{ item: T; geometry: PolygonalGeometry; bbox: BoundingBox }>>();
+
+    /**
+     * @param cellSize Grid cell size in degrees; 0.1° suits postal code areas
+     */
+    constructor(cellSize: number = 0.1) {
+        this.cellSize = cellSize;
+    }
+
+    insert(item: T, geometry: PolygonalGeometry): void {
+        const bbox = boundingBox(geometry);
+        const entry = { item, geometry, bbox };
+        for (let cx = this.cell(bbox[0]); cx <= this.cell(bbox[2]); cx++) {
+            for (let cy = this.cell(bbox[1]); cy <= this.cell(bbox[3]); cy++) {
+                const key = `${cx},${cy}`;
+                const list = this.cells.get(key) ?? [];
+                list.push(entry);
+                this.cells.set(key, list);
+            }
+        }
+    }
+
+    /**
+     * Items whose geometry contains the point. Usually one; areas sharing a
+     * border may both claim a point lying exactly on it.
+     */
+    query(point: Position): T[] {
+        const [lon, lat] = point;
+        const candidates = this.cells.get(`${this.cell(lon)},${this.cell(lat)}`) ?? [];
+        return candidates
+            .filter(({ bbox }) => lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3])
+            .filter(({ geometry }) => containsPoint(geometry, point))
+            .map(({ item }) => item);
+    }
+
+    private cell(degrees: number): number {
+        return Math.floor(degrees / this.cellSize);
+    }
+}
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { SpatialIndex, containsPoint } from '../SpatialIndex.ts';
+import type { Polygon } from '../../model/Models.ts';
+
+// 1° square with a 0.2° hole in the middle
+const donut: Polygon = {
+    type: 'Polygon',
+    coordinates: [
+        [[24, 60], [25, 60], [25, 61], [24, 61], [24, 60]],
+        [[24.4, 60.4], [24.4, 60.6], [24.6, 60.6], [24.6, 60.4], [24.4, 60.4]],
+    ],
+};
+const filling: Polygon = { type: 'Polygon', coordinates: [donut.coordinates[1]!] };
+
+describe('containsPoint', () => {
+    test('respects holes', () => {
+        expect(containsPoint(donut, [24.1, 60.1])).toBe(true);
+        expect(containsPoint(donut, [24.5, 60.5])).toBe(false);
+        expect(containsPoint(donut, [25.5, 60.5])).toBe(false);
+    });
+});
+
+describe('SpatialIndex', () => {
+    test('finds the area containing a point across grid cells', () => {
+        const index = new SpatialIndex<string>();
+        index.insert('00100', donut);
+        index.insert('00200', filling);
+
+        expect(index.query([24.5, 60.5])).toEqual(['00200']);
+        expect(index.query([24.95, 60.95])).toEqual(['00100']);
+        expect(index.query([30, 65])).toEqual([]);
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'bun:test';
+import { computeAdjacency } from '../adjacency.ts';
+import type { Polygon } from '../../model/Models.ts';
+
+function square(x: number, y: number): Polygon {
+    const s = 0.01;
+    return { type: 'Polygon', coordinates: [[[x, y], [x + s, y], [x + s, y + s], [x, y + s], [x, y]]] };
+}
+
+describe('computeAdjacency', () => {
+    test('areas sharing an edge are neighbours in both directions', () => {
+        const result = computeAdjacency([
+            { code: '00100', geometry: square(25, 60) },
+            { code: '00200', geometry: square(25.01, 60) },
+        ]);
+
+        expect(result.map((a) => `${a.postalCode}>${a.neighbour}`).sort()).toEqual(['00100>00200', '00200>00100']);
+        // 0.01° of latitude ≈ 1112 m
+        expect(result[0]!.sharedBoundaryM).toBeGreaterThan(1100);
+        expect(result[0]!.sharedBoundaryM).toBeLessThan(1120);
+    });
+
+    test('touching at a corner is not adjacency', () => {
+        const result = computeAdjacency([
+            { code: '00100', geometry: square(25, 60) },
+            { code: '00300', geometry: square(25.01, 60.01) },
+        ]);
+        expect(result).toEqual([]);
+    });
+});
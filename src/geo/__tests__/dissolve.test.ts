@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'bun:test';
+import { dissolvePolygons, signedArea } from '../dissolve.ts';
+import type { Polygon, Ring } from '../../model/Models.ts';
+
+function square(x: number, y: number, size = 1): Polygon {
+    return {
+        type: 'Polygon',
+        coordinates: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]],
+    };
+}
+
+describe('dissolvePolygons', () => {
+    test('merges two squares sharing an edge into one outline', () => {
+        const result = dissolvePolygons([square(0, 0), square(1, 0)]);
+
+        expect(result.coordinates).toHaveLength(1);
+        const [exterior] = result.coordinates[0]!;
+        expect(signedArea(exterior!)).toBe(4);  // 2 × 1 rectangle, counter-clockwise
+        expect(exterior).toHaveLength(7);       // Shared edge's endpoints remain as vertices
+    });
+
+    test('keeps disjoint polygons separate', () => {
+        const result = dissolvePolygons([square(0, 0), square(5, 5)]);
+        expect(result.coordinates).toHaveLength(2);
+    });
+
+    test('accepts clockwise input rings', () => {
+        const clockwise: Polygon = { type: 'Polygon', coordinates: [[...square(1, 0).coordinates[0]!].reverse()] };
+        const result = dissolvePolygons([square(0, 0), clockwise]);
+        expect(result.coordinates).toHaveLength(1);
+    });
+
+    test('a ring of areas around a gap leaves a hole', () => {
+        // 3 × 3 block of unit squares without the centre one
+        const squares: Polygon[] = [];
+        for (let x = 0; x < 3; x++) {
+            for (let y = 0; y < 3; y++) {
+                if (x !== 1 || y !== 1) squares.push(square(x, y));
+            }
+        }
+
+        const result = dissolvePolygons(squares);
+
+        expect(result.coordinates).toHaveLength(1);
+        const [exterior, hole] = result.coordinates[0]! as [Ring, Ring];
+        expect(signedArea(exterior)).toBe(18);
+        expect(signedArea(hole)).toBe(-2);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'bun:test';
+import { encodeGeometry, encodeTile, projectToTile, tileBounds, TILE_EXTENT } from '../mvt.ts';
+
+describe('encodeGeometry', () => {
+    test('matches the polygon example of the vector tile spec', () => {
+        expect(encodeGeometry([[[3, 6], [8, 12], [20, 34]]])).toEqual([9, 6, 12, 18, 10, 12, 24, 44, 15]);
+    });
+
+    test('cursor carries over between rings', () => {
+        const commands = encodeGeometry([[[0, 0], [10, 0], [10, 10]], [[2, 2], [2, 4], [4, 4]]]);
+        // Second MoveTo is relative to the last point of the first ring (10, 10)
+        expect(commands.slice(9, 12)).toEqual([9, 15, 15]);
+    });
+});
+
+describe('projectToTile', () => {
+    test('null island is the centre of the world tile', () => {
+        expect(projectToTile([0, 0], { z: 0, x: 0, y: 0 })).toEqual([TILE_EXTENT / 2, TILE_EXTENT / 2]);
+    });
+
+    test('tile bounds project onto the tile edges', () => {
+        const address = { z: 8, x: 145, y: 74 };
+        const [west, south, east, north] = tileBounds(address);
+        expect(projectToTile([west, north], address)).toEqual([0, 0]);
+        expect(projectToTile([east, south], address)).toEqual([TILE_EXTENT, TILE_EXTENT]);
+    });
+});
+
+describe('encodeTile', () => {
+    const address = { z: 0, x: 0, y: 0 };
+    const square = { type: 'Polygon' as const, coordinates: [[[10, 10], [20, 10], [20, 20], [10, 20], [10, 10]]] as [number, number][][] };
+
+    test('writes one layer message with its features', () => {
+        const bytes = encodeTile(address, [{ name: 'areas', features: [{ id: 100, properties: { code: '00100', price: 5123.5, count: null }, geometry: square }] }]);
+
+        expect(bytes[0]).toBe(0x1a);  // Tile.layers: field 3, length-delimited
+        const text = new TextDecoder().decode(bytes);
+        expect(text).toContain('areas');
+        expect(text).toContain('00100');
+        expect(text).not.toContain('count');  // Null properties are omitted
+    });
+
+    test('skips features outside the tile', () => {
+        const bytes = encodeTile({ z: 10, x: 0, y: 0 }, [{ name: 'areas', features: [{ properties: { code: 'far' }, geometry: square }] }]);
+        expect(new TextDecoder().decode(bytes)).not.toContain('far');
+    });
+});
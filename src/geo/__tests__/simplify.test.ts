@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test';
+import { douglasPeucker, simplifyTopology } from '../simplify.ts';
+import type { Polygon, Position } from '../../model/Models.ts';
+
+describe('douglasPeucker', () => {
+    test('drops points within tolerance and keeps the ends', () => {
+        const line: Position[] = [[0, 0], [1, 0.01], [2, -0.01], [3, 0]];
+        expect(douglasPeucker(line, 0.1)).toEqual([[0, 0], [3, 0]]);
+        expect(douglasPeucker(line, 0.001)).toEqual(line);
+    });
+});
+
+describe('simplifyTopology', () => {
+    // Two areas sharing a wiggly border along x = 1
+    const border: Position[] = [[1, 0], [1.004, 0.25], [0.997, 0.5], [1.003, 0.75], [1, 1]];
+    const left: Polygon = { type: 'Polygon', coordinates: [[[0, 0], ...border, [0, 1], [0, 0]]] };
+    const right: Polygon = { type: 'Polygon', coordinates: [[...[...border].reverse(), [2, 0], [2, 1], [1, 1]]] };
+
+    test('neighbours keep an identical shared border', () => {
+        const [a, b] = simplifyTopology([left, right], { tolerance: 0.001, precision: 3 });
+
+        const keysOf = (ring: Position[]) => new Set(ring.map((p) => p.join(',')));
+        const shared = [...keysOf(a!.coordinates[0]![0]!)].filter((k) => keysOf(b!.coordinates[0]![0]!).has(k));
+
+        // Border vertices survive in both (deviations exceed the tolerance), rounded to 3 decimals
+        expect(shared.sort()).toEqual(['1,0', '1,1', '1.003,0.75', '1.004,0.25', '0.997,0.5'].sort());
+    });
+
+    test('a coarse tolerance straightens the shared border in both areas', () => {
+        const [a, b] = simplifyTopology([left, right], { tolerance: 0.01, precision: 3 });
+        expect(a!.coordinates[0]![0]).toHaveLength(5);
+        expect(b!.coordinates[0]![0]).toHaveLength(5);
+    });
+
+    test('an area smaller than the tolerance is kept', () => {
+        const tiny: Polygon = { type: 'Polygon', coordinates: [[[5, 5], [5.0001, 5], [5.0001, 5.0001], [5, 5.0001], [5, 5]]] };
+        const [result] = simplifyTopology([tiny], { tolerance: 0.01, precision: 5 });
+        expect(result!.coordinates).toHaveLength(1);
+    });
+});
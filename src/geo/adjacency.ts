@@ -0,0 +1,56 @@
+import { polygonsOf, positionKey } from './dissolve.ts';
+import type { Adjacency, PolygonalGeometry, Position } from '../model/Models.ts';
+
+const EARTH_RADIUS_M = 6_371_000;
+
+/**
+ * Finds the areas that share boundary, and how much of it.
+ *
+ * Like `dissolvePolygons`, this relies on neighbouring areas having the
+ * same vertices along their common border: an edge found in two areas is
+ * shared by them. Areas touching at a single point are not neighbours.
+ */
+export function computeAdjacency(areas: Array<{ code: string; geometry: PolygonalGeometry }>): Adjacency[] {
+    const edgeOwners = new Map<string, { codes: Set<string>; length: number }>();
+
+    for (const { code, geometry } of areas) {
+        for (const ring of polygonsOf(geometry).flat()) {
+            for (let i = 0; i < ring.length - 1; i++) {
+                const a = ring[i]!;
+                const b = ring[i + 1]!;
+                const [ka, kb] = [positionKey(a), positionKey(b)];
+                if (ka === kb) continue;
+
+                const key = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+                const entry = edgeOwners.get(key) ?? { codes: new Set<string>(), length: distanceM(a, b) };
+                entry.codes.add(code);
+                edgeOwners.set(key, entry);
+            }
+        }
+    }
+
+    const shared = new Map<string, number>();  // 'code|neighbour' → metres
+    for (const { codes, length } of edgeOwners.values()) {
+        if (codes.size < 2) continue;
+        for (const a of codes) {
+            for (const b of codes) {
+                if (a === b) continue;
+                const key = `${a}|${b}`;
+                shared.set(key, (shared.get(key) ?? 0) + length);
+            }
+        }
+    }
+
+    return [...shared].map(([key, length]) => {
+        const [postalCode, neighbour] = key.split('|') as [string, string];
+        return { postalCode, neighbour, sharedBoundaryM: Math.round(length) };
+    });
+}
+
+/** Equirectangular approximation; accurate enough for short edges */
+function distanceM([lon1, lat1]: Position, [lon2, lat2]: Position): number {
+    const toRad = Math.PI / 180;
+    const x = (lon2 - lon1) * toRad * Math.cos(((lat1 + lat2) / 2) * toRad);
+    const y = (lat2 - lat1) * toRad;
+    return Math.hypot(x, y) * EARTH_RADIUS_M;
+}
@@ -0,0 +1,165 @@
+import type { MultiPolygon, PolygonalGeometry, Position, Ring } from '../model/Models.ts';
+
+/**
+ * Dissolves adjacent polygons into a single MultiPolygon by removing the
+ * boundaries they share.
+ *
+ * Postal code areas come from one topologically consistent dataset, so a
+ * boundary shared by two areas consists of the same vertices in both. With
+ * every exterior ring oriented counter-clockwise and every hole clockwise,
+ * a shared edge appears once in each direction; dropping those pairs leaves
+ * only the outline of the union, which is then stitched back into rings.
+ */
+export function dissolvePolygons(geometries: PolygonalGeometry[]): MultiPolygon {
+    const edges = new Map<string, Edge[]>();  // Directed edge key → edges still in the outline
+
+    for (const polygon of geometries.flatMap(polygonsOf)) {
+        polygon.forEach((ring, i) => {
+            const oriented = orientRing(ring, i === 0);
+            for (let j = 0; j < oriented.length - 1; j++) {
+                addEdge(edges, oriented[j]!, oriented[j + 1]!);
+            }
+        });
+    }
+
+    const rings = stitchRings([...edges.values()].flat());
+    const exteriors = rings.filter((r) => signedArea(r) > 0);
+    const holes = rings.filter((r) => signedArea(r) < 0);
+
+    const polygons: Ring[][] = exteriors
+        .sort((a, b) => signedArea(b) - signedArea(a))
+        .map((r) => [r]);
+
+    for (const hole of holes) {
+        // Smallest exterior containing the hole; exteriors are sorted by descending area
+        const owner = polygons.findLast(([exterior]) => ringContains(exterior!, hole));
+        if (owner) owner.push(hole);
+    }
+
+    return { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Twice the signed area of a closed ring (shoelace formula); positive when
+ * the ring is counter-clockwise.
+ */
+export function signedArea(ring: Ring): number {
+    let sum = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        const [x1, y1] = ring[i]!;
+        const [x2, y2] = ring[i + 1]!;
+        sum += x1 * y2 - x2 * y1;
+    }
+    return sum;
+}
+
+interface Edge {
+    from: Position;
+    to: Position;
+}
+
+/**
+ * The polygons of a Polygon or MultiPolygon, as MultiPolygon coordinates.
+ */
+export function polygonsOf(geometry: PolygonalGeometry): Ring[][] {
+    return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+function orientRing(ring: Ring, exterior: boolean): Ring {
+    const ccw = signedArea(ring) > 0;
+    return ccw === exterior ? ring : [...ring].reverse();
+}
+
+/**
+ * Exact identity of a vertex, for matching vertices shared between areas.
+ */
+export function positionKey([x, y]: Position): string {
+    return `${x},${y}`;
+}
+
+function edgeKey(from: Position, to: Position): string {
+    return `${positionKey(from)}>${positionKey(to)}`;
+}
+
+/**
+ * Adds a directed edge, or cancels it against the same edge traversed in
+ * the opposite direction by a neighbouring polygon.
+ */
+function addEdge(edges: Map<string, Edge[]>, from: Position, to: Position): void {
+    if (positionKey(from) === positionKey(to)) return;
+
+    const reverseKey = edgeKey(to, from);
+    const reverse = edges.get(reverseKey);
+    if (reverse && reverse.length > 0) {
+        reverse.pop();
+        if (reverse.length === 0) edges.delete(reverseKey);
+        return;
+    }
+
+    const key = edgeKey(from, to);
+    const list = edges.get(key) ?? [];
+    list.push({ from, to });
+    edges.set(key, list);
+}
+
+/**
+ * Chains directed edges end-to-start into closed rings. Where several edges
+ * leave the same vertex (areas touching at a single point) any of them is
+ * taken; the resulting rings still cover the same outline.
+ */
+function stitchRings(edges: Edge[]): Ring[] {
+    const outgoing = new Map<string, Edge[]>();
+    for (const edge of edges) {
+        const key = positionKey(edge.from);
+        const list = outgoing.get(key) ?? [];
+        list.push(edge);
+        outgoing.set(key, list);
+    }
+
+    const rings: Ring[] = [];
+    for (const start of edges) {
+        const startList = outgoing.get(positionKey(start.from));
+        const startIndex = startList?.indexOf(start) ?? -1;
+        if (startIndex < 0) continue;  // Already used by an earlier ring
+        startList!.splice(startIndex, 1);
+
+        const ring: Ring = [start.from];
+        let current = start;
+        while (positionKey(current.to) !== positionKey(start.from)) {
+            ring.push(current.to);
+            const next = outgoing.get(positionKey(current.to))?.pop();
+            if (!next) break;  // Open chain; inconsistent input
+            current = next;
+        }
+        ring.push(start.from);
+
+        if (ring.length >= 4) rings.push(ring);
+    }
+
+    return rings;
+}
+
+/**
+ * Whether `inner` lies inside `outer`, tested on the first vertex of
+ * `inner` that is not also a vertex of `outer`.
+ */
+function ringContains(outer: Ring, inner: Ring): boolean {
+    const outerKeys = new Set(outer.map(positionKey));
+    const probe = inner.find((p) => !outerKeys.has(positionKey(p))) ?? inner[0]!;
+    return pointInRing(probe, outer);
+}
+
+/**
+ * Even-odd ray casting test of a position against a closed ring.
+ */
+export function pointInRing([px, py]: Position, ring: Ring): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i]!;
+        const [xj, yj] = ring[j]!;
+        if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
@@ -0,0 +1,265 @@
+import { polygonsOf, signedArea } from './dissolve.ts';
+import type { PolygonalGeometry, Position } from '../model/Models.ts';
+
+/** Tile coordinate resolution; the Mapbox Vector Tile default */
+export const TILE_EXTENT = 4096;
+
+/** Geometry kept outside the tile edge so strokes don't end at the seam */
+const TILE_BUFFER = 64;
+
+export type TileValue = string | number | boolean;
+
+export interface TileFeature {
+    id?: number;
+    properties: Record<string, TileValue | null>;  // Nulls are omitted; MVT has no null
+    geometry: PolygonalGeometry;                    // WGS84
+}
+
+export interface TileLayer {
+    name: string;
+    features: TileFeature[];
+}
+
+export interface TileAddress {
+    z: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * WGS84 bounding box of a Web Mercator tile: [west, south, east, north].
+ */
+export function tileBounds({ z, x, y }: TileAddress): [number, number, number, number] {
+    const n = 2 ** z;
+    const lon = (tx: number) => (tx / n) * 360 - 180;
+    const lat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+    return [lon(x), lat(y + 1), lon(x + 1), lat(y)];
+}
+
+/**
+ * Projects a WGS84 position into the integer coordinates of a tile
+ * (0..TILE_EXTENT, y pointing down). Positions outside the tile fall
+ * outside that range.
+ */
+export function projectToTile([lon, lat]: Position, { z, x, y }: TileAddress): Position {
+    const n = 2 ** z;
+    const sin = Math.sin((lat * Math.PI) / 180);
+    const worldX = (lon + 180) / 360;
+    const worldY = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+    return [Math.round((worldX * n - x) * TILE_EXTENT), Math.round((worldY * n - y) * TILE_EXTENT)];
+}
+
+/**
+ * Encodes layers of polygon features as a Mapbox Vector Tile (spec v2.1).
+ * Geometry is projected and clipped to the tile; features with nothing
+ * left inside it are skipped.
+ */
+export function encodeTile(address: TileAddress, layers: TileLayer[]): Uint8Array {
+    const tile = new PbfWriter();
+    for (const layer of layers) {
+        tile.message(3, encodeLayer(address, layer));
+    }
+    return tile.finish();
+}
+
+/**
+ * Geometry command stream of one polygon feature. Rings are open (no
+ * repeated closing position), in tile coordinates; exterior rings must
+ * have positive area by the surveyor's formula and holes negative.
+ */
+export function encodeGeometry(rings: Position[][]): number[] {
+    const commands: number[] = [];
+    let cx = 0;
+    let cy = 0;
+
+    for (const ring of rings) {
+        ring.forEach(([x, y], i) => {
+            if (i === 0) commands.push(command(1, 1));
+            else if (i === 1) commands.push(command(2, ring.length - 1));
+            commands.push(zigzag(x - cx), zigzag(y - cy));
+            cx = x;
+            cy = y;
+        });
+        commands.push(command(7, 1));
+    }
+
+    return commands;
+}
+
+function encodeLayer(address: TileAddress, layer: TileLayer): Uint8Array {
+    const keys = new Map<string, number>();
+    const values = new Map<string, { index: number; value: TileValue }>();
+    const out = new PbfWriter();
+
+    out.varintField(15, 2);  // version
+    out.stringField(1, layer.name);
+
+    for (const feature of layer.features) {
+        const rings = projectPolygons(feature.geometry, address);
+        if (rings.length === 0) continue;
+
+        const tags: number[] = [];
+        for (const [key, value] of Object.entries(feature.properties)) {
+            if (value === null) continue;
+            if (!keys.has(key)) keys.set(key, keys.size);
+            const valueKey = `${typeof value}:${value}`;
+            if (!values.has(valueKey)) values.set(valueKey, { index: values.size, value });
+            tags.push(keys.get(key)!, values.get(valueKey)!.index);
+        }
+
+        const f = new PbfWriter();
+        if (feature.id !== undefined) f.varintField(1, feature.id);
+        f.packedField(2, tags);
+        f.varintField(3, 3);  // POLYGON
+        f.packedField(4, encodeGeometry(rings));
+        out.message(2, f.finish());
+    }
+
+    for (const key of keys.keys()) out.stringField(3, key);
+    for (const { value } of values.values()) out.message(4, encodeValue(value));
+    out.varintField(5, TILE_EXTENT);
+
+    return out.finish();
+}
+
+function encodeValue(value: TileValue): Uint8Array {
+    const out = new PbfWriter();
+    if (typeof value === 'string') out.stringField(1, value);
+    else if (typeof value === 'boolean') out.varintField(7, value ? 1 : 0);
+    else if (Number.isInteger(value) && value >= 0) out.varintField(5, value);
+    else if (Number.isInteger(value)) out.varintField(6, zigzag(value));
+    else out.doubleField(3, value);
+    return out.finish();
+}
+
+/**
+ * Projects, clips and orients the rings of every polygon; rings that
+ * vanish are dropped, and holes of a vanished exterior with it.
+ */
+function projectPolygons(geometry: PolygonalGeometry, address: TileAddress): Position[][] {
+    const rings: Position[][] = [];
+
+    for (const polygon of polygonsOf(geometry)) {
+        for (const [i, ring] of polygon.entries()) {
+            const exterior = i === 0;
+            const clipped = clipRing(dedupe(ring.map((p) => projectToTile(p, address))));
+            const area = clipped.length >= 3 ? signedArea([...clipped, clipped[0]!]) : 0;
+
+            if (area === 0) {
+                if (exterior) break;
+                continue;
+            }
+            rings.push((area > 0) === exterior ? clipped : [...clipped].reverse());
+        }
+    }
+
+    return rings;
+}
+
+/**
+ * Sutherland-Hodgman clipping of an open ring to the buffered tile square.
+ */
+function clipRing(ring: Position[]): Position[] {
+    const min = -TILE_BUFFER;
+    const max = TILE_EXTENT + TILE_BUFFER;
+
+    const edges: Array<{ inside: (p: Position) => boolean; cut: (a: Position, b: Position) => Position }> = [
+        { inside: ([x]) => x >= min, cut: (a, b) => atX(a, b, min) },
+        { inside: ([x]) => x <= max, cut: (a, b) => atX(a, b, max) },
+        { inside: ([, y]) => y >= min, cut: (a, b) => atY(a, b, min) },
+        { inside: ([, y]) => y <= max, cut: (a, b) => atY(a, b, max) },
+    ];
+
+    let output = ring;
+    for (const { inside, cut } of edges) {
+        const input = output;
+        output = [];
+        input.forEach((current, i) => {
+            const previous = input[(i + input.length - 1) % input.length]!;
+            if (inside(current)) {
+                if (!inside(previous)) output.push(cut(previous, current));
+                output.push(current);
+            } else if (inside(previous)) {
+                output.push(cut(previous, current));
+            }
+        });
+        if (output.length === 0) break;
+    }
+
+    return dedupe(output);
+}
+
+function atX([ax, ay]: Position, [bx, by]: Position, x: number): Position {
+    return [x, Math.round(ay + ((by - ay) * (x - ax)) / (bx - ax))];
+}
+
+function atY([ax, ay]: Position, [bx, by]: Position, y: number): Position {
+    return [Math.round(ax + ((bx - ax) * (y - ay)) / (by - ay)), y];
+}
+
+/** Drops repeated positions (including a closing one) after rounding */
+function dedupe(ring: Position[]): Position[] {
+    const out = ring.filter((p, i) => i === 0 || p[0] !== ring[i - 1]![0] || p[1] !== ring[i - 1]![1]);
+    while (out.length > 1 && out[0]![0] === out[out.length - 1]![0] && out[0]![1] === out[out.length - 1]![1]) {
+        out.pop();
+    }
+    return out;
+}
+
+function command(id: number, count: number): number {
+    return (id & 0x7) | (count << 3);
+}
+
+function zigzag(n: number): number {
+    return n >= 0 ? n * 2 : -n * 2 - 1;
+}
+
+/**
+ * Minimal protocol buffers writer: just the wire types the vector tile
+ * schema uses.
+ */
+class PbfWriter {
+    private bytes: number[] = [];
+
+    varintField(field: number, value: number): void {
+        this.varint(field * 8);
+        this.varint(value);
+    }
+
+    doubleField(field: number, value: number): void {
+        this.varint(field * 8 + 1);
+        const buffer = new DataView(new ArrayBuffer(8));
+        buffer.setFloat64(0, value, true);
+        for (let i = 0; i < 8; i++) this.bytes.push(buffer.getUint8(i));
+    }
+
+    stringField(field: number, value: string): void {
+        this.message(field, new TextEncoder().encode(value));
+    }
+
+    message(field: number, data: Uint8Array): void {
+        this.varint(field * 8 + 2);
+        this.varint(data.length);
+        for (const b of data) this.bytes.push(b);
+    }
+
+    packedField(field: number, values: number[]): void {
+        const packed = new PbfWriter();
+        for (const v of values) packed.varint(v);
+        this.message(field, packed.finish());
+    }
+
+    finish(): Uint8Array {
+        return Uint8Array.from(this.bytes);
+    }
+
+    private varint(value: number): void {
+        // Arithmetic rather than bit operations, which truncate to 32 bits
+        let v = value;
+        while (v >= 0x80) {
+            this.bytes.push((v % 0x80) | 0x80);
+            v = Math.floor(v / 0x80);
+        }
+        this.bytes.push(v);
+    }
+}
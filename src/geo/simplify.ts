@@ -0,0 +1,180 @@
+import { polygonsOf, positionKey, signedArea } from './dissolve.ts';
+import type { GeometryDetail, MultiPolygon, PolygonalGeometry, Position, Ring } from '../model/Models.ts';
+
+export interface SimplificationLevel {
+    tolerance: number;  // Douglas-Peucker tolerance in degrees
+    precision: number;  // Decimals kept in coordinates
+}
+
+/**
+ * Tolerances per detail level. At 60°N a degree of latitude is ~111 km and
+ * a degree of longitude ~56 km, so 0.0001° is roughly 5–10 m.
+ */
+export const GEOMETRY_DETAIL_LEVELS: Record<GeometryDetail, SimplificationLevel> = {
+    high: { tolerance: 0.0001, precision: 5 },
+    medium: { tolerance: 0.0005, precision: 4 },
+    low: { tolerance: 0.002, precision: 3 },
+};
+
+export const GEOMETRY_DETAILS = Object.keys(GEOMETRY_DETAIL_LEVELS) as GeometryDetail[];
+
+/**
+ * Simplifies a set of adjacent polygons without opening gaps or overlaps
+ * between them, and rounds coordinates to `level.precision` decimals.
+ *
+ * Rings are cut into arcs at junctions — vertices where more than two
+ * boundaries meet — so a boundary shared by two areas becomes one arc.
+ * Each arc is simplified once with Douglas-Peucker (junctions are kept)
+ * and the result is reused by every ring that runs along it, so
+ * neighbours keep an identical border.
+ *
+ * Rings that collapse are dropped; if every polygon of an area collapses,
+ * its largest exterior ring is kept rounded but unsimplified so the area
+ * never disappears. Results are in input order.
+ */
+export function simplifyTopology(geometries: PolygonalGeometry[], level: SimplificationLevel): MultiPolygon[] {
+    const polygonsByGeometry = geometries.map((g) => polygonsOf(g).map((rings) => rings.map(openRing)));
+
+    const neighbours = new Map<string, Set<string>>();
+    for (const ring of polygonsByGeometry.flat(2)) {
+        ring.forEach((p, i) => {
+            const key = positionKey(p);
+            const set = neighbours.get(key) ?? new Set<string>();
+            set.add(positionKey(ring[(i + ring.length - 1) % ring.length]!));
+            set.add(positionKey(ring[(i + 1) % ring.length]!));
+            neighbours.set(key, set);
+        });
+    }
+    const isJunction = (p: Position) => neighbours.get(positionKey(p))!.size > 2;
+
+    const arcCache = new Map<string, Position[]>();
+    const simplifyArc = (arc: Position[]): Position[] => {
+        const forward = arc.map(positionKey).join(';');
+        const backward = arc.map(positionKey).reverse().join(';');
+        const reversed = backward < forward;
+        const canonicalKey = reversed ? backward : forward;
+
+        let simplified = arcCache.get(canonicalKey);
+        if (!simplified) {
+            const canonical = reversed ? [...arc].reverse() : arc;
+            simplified = dedupeConsecutive(douglasPeucker(canonical, level.tolerance).map((p) => quantize(p, level.precision)));
+            arcCache.set(canonicalKey, simplified);
+        }
+        return reversed ? [...simplified].reverse() : simplified;
+    };
+
+    return polygonsByGeometry.map((polygons) => {
+        const result: Ring[][] = [];
+        for (const rings of polygons) {
+            const [exterior, ...holes] = rings.map((ring) => simplifyRing(ring, isJunction, simplifyArc));
+            if (!exterior) continue;
+            result.push([exterior, ...holes.filter((h): h is Ring => h !== null)]);
+        }
+
+        if (result.length === 0) {
+            const largest = polygons
+                .map((rings) => rings[0]!)
+                .sort((a, b) => Math.abs(signedArea(closeRing(b))) - Math.abs(signedArea(closeRing(a))))[0];
+            if (largest) {
+                result.push([closeRing(dedupeConsecutive(largest.map((p) => quantize(p, level.precision))))]);
+            }
+        }
+
+        return { type: 'MultiPolygon', coordinates: result };
+    });
+}
+
+/**
+ * Douglas-Peucker line simplification; the first and last positions are
+ * always kept.
+ */
+export function douglasPeucker(line: Position[], tolerance: number): Position[] {
+    if (line.length <= 2) return line;
+
+    const keep = new Array<boolean>(line.length).fill(false);
+    keep[0] = true;
+    keep[line.length - 1] = true;
+
+    const stack: Array<[number, number]> = [[0, line.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        let maxDistance = 0;
+        let index = -1;
+        for (let i = first + 1; i < last; i++) {
+            const d = segmentDistance(line[i]!, line[first]!, line[last]!);
+            if (d > maxDistance) {
+                maxDistance = d;
+                index = i;
+            }
+        }
+        if (index >= 0 && maxDistance > tolerance) {
+            keep[index] = true;
+            stack.push([first, index], [index, last]);
+        }
+    }
+
+    return line.filter((_, i) => keep[i]);
+}
+
+/**
+ * Rebuilds one ring from its simplified arcs; null if it collapses.
+ */
+function simplifyRing(
+    ring: Position[],
+    isJunction: (p: Position) => boolean,
+    simplifyArc: (arc: Position[]) => Position[]
+): Ring | null {
+    if (ring.length < 3) return null;
+
+    // Start at a junction, or for a ring nobody else touches at its
+    // smallest vertex, so both copies of a shared ring cut it the same way
+    let start = ring.findIndex(isJunction);
+    if (start < 0) {
+        const keys = ring.map(positionKey);
+        start = keys.indexOf([...keys].sort()[0]!);
+    }
+    const rotated = [...ring.slice(start), ...ring.slice(0, start), ring[start]!];
+
+    const out: Position[] = [rotated[0]!];
+    let arcStart = 0;
+    for (let i = 1; i < rotated.length; i++) {
+        if (i === rotated.length - 1 || isJunction(rotated[i]!)) {
+            out.push(...simplifyArc(rotated.slice(arcStart, i + 1)).slice(1));
+            arcStart = i;
+        }
+    }
+
+    const simplified = dedupeConsecutive(out);
+    return simplified.length >= 4 && signedArea(simplified) !== 0 ? simplified : null;
+}
+
+/** Drops the closing position and repeated vertices */
+function openRing(ring: Ring): Position[] {
+    const open = dedupeConsecutive(ring);
+    if (open.length > 1 && positionKey(open[0]!) === positionKey(open[open.length - 1]!)) {
+        open.pop();
+    }
+    return open;
+}
+
+function closeRing(open: Position[]): Ring {
+    return [...open, open[0]!];
+}
+
+function dedupeConsecutive(positions: Position[]): Position[] {
+    return positions.filter((p, i) => i === 0 || positionKey(p) !== positionKey(positions[i - 1]!));
+}
+
+function quantize([x, y]: Position, precision: number): Position {
+    const factor = 10 ** precision;
+    return [Math.round(x * factor) / factor, Math.round(y * factor) / factor];
+}
+
+/** Distance from p to the segment a–b */
+function segmentDistance([px, py]: Position, [ax, ay]: Position, [bx, by]: Position): number {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
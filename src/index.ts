@@ -1,139 +1,78 @@
 // src/index.ts
 
-import { mkdir, writeFile } from "node:fs/promises";
-import { join } from "node:path";
-
-import { DatasetExtractor } from "./extractor/DatasetExtractor.ts";
-import { DatasetTransformer } from "./transformer/DatasetTransformer.ts";
-import { STATFIN_BUILDING_TYPE_MAPPINGS } from "./transformer/StatfinBuildingTypes.ts";
-import { PxWebDatasetSource } from "./source/PxWebDatasetSource.ts";
-import { PKS_POSTAL_CODES, DEFAULT_YEARS } from "./config/postalCodes.ts";
-import type { DatasetMetadata, RawDataset, TransformResult, QueryConfig, PriceRecord } from "./model/Models.ts";
+import { fetchCommand } from "./commands/fetch.ts";
+import { geometriesCommand } from "./commands/geometries.ts";
+import { statusCommand } from "./commands/status.ts";
+import { exportCommand } from "./commands/export.ts";
+import { demographicsCommand } from "./commands/demographics.ts";
+import { parseCommandArgs, formatCommandHelp } from "./commands/Command.ts";
+import type { Command } from "./commands/Command.ts";
 import { createLogger } from './utils/Logger.ts';
 
 //central logger init
 const logger = createLogger('app');
-logger.info('Application starting...');
-
-
-async function main() {
-  const datasetUrl =
-    "https://pxdata.stat.fi/PXWeb/api/v1/en/StatFin/statfin_ashi_pxt_13mu.px";
-
-  logger.info("statfin extract starting...");
-
-  const dataSource: PxWebDatasetSource = new PxWebDatasetSource(datasetUrl);
-  const extractor: DatasetExtractor = new DatasetExtractor();
-
-  const queryConfig: QueryConfig = {
-    postalCodes: PKS_POSTAL_CODES,
-    years: DEFAULT_YEARS,
-  };
-
-  try {
-    // Step 1: get metadata
-    const metadata: DatasetMetadata = await dataSource.fetchMetadata();
-
-    // Step 2: extract data in batches
-    const batches: RawDataset[] = await extractor.extractBatched(
-      metadata,
-      dataSource.getUrl(),
-      queryConfig
-    );
-
-    // Step 3: transform each batch and merge results
-    let allRecords: PriceRecord[] = [];
-    let totalSkipped = 0;
-
-    for (const rawDataset of batches) {
-      const transformer: DatasetTransformer = new DatasetTransformer(
-        rawDataset,
-        dataSource.datasetName,
-        STATFIN_BUILDING_TYPE_MAPPINGS
-      );
-      const result = transformer.transform();
-      allRecords = allRecords.concat(result.records);
-      totalSkipped += result.skipped;
-    }
-
-    const mergedResult: TransformResult = {
-      records: allRecords,
-      skipped: totalSkipped,
-      sourceName: dataSource.datasetName,
-      buildingTypeMappings: STATFIN_BUILDING_TYPE_MAPPINGS,
-    };
-
-    logger.info(`Total: ${mergedResult.records.length} records, ${mergedResult.skipped} skipped from ${batches.length} batches`);
-
-    // Preview output
-    prettyPrintResults(mergedResult);
 
-    // Step 4: store to database (if DATABASE_URL is set)
-    if (process.env.DATABASE_URL) {
-      const { DatabaseClient } = await import("./db/DatabaseClient.ts");
-      const db = new DatabaseClient();
-      try {
-        const { sourceId, recordsStored } = await db.storeTransformResult(
-          mergedResult,
-          'Statistics Finland - prices of old dwellings in housing companies',
-          datasetUrl
-        );
-        logger.info(`Stored ${recordsStored} records to DB (source id: ${sourceId})`);
-      } finally {
-        await db.close();
-      }
-    } else {
-      logger.info('DATABASE_URL not set, skipping DB insert (preview mode)');
-    }
-  } catch (err) {
-    logger.error({ originalError: err }, "Extraction failed");
-    if (err instanceof Error) {
-      logger.error(err.stack);
-    }
-    throw err;
+/**
+ * Housing Prices FI — pipeline CLI
+ *
+ * Usage: bun run src/index.ts <command> [options]
+ *
+ * Commands:
+ *   fetch         Fetch, transform and store prices (--dry-run to preview)
+ *   geometries    Fetch postal code geometries and municipalities into the DB
+ *   status        Last ingestion run and row counts per source and year
+ *   export        Export stored prices as CSV or JSON
+ *   demographics  Fetch Paavo postal code statistics into the DB
+ */
+const COMMANDS: Command[] = [fetchCommand, geometriesCommand, statusCommand, exportCommand, demographicsCommand];
+
+function printUsage() {
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  console.log('Usage: bun run src/index.ts <command> [options]\n');
+  console.log('Commands:');
+  for (const c of COMMANDS) {
+    console.log(`  ${c.name.padEnd(width)}  ${c.description}`);
   }
+  console.log('\nRun with <command> --help for command options.');
 }
 
-//this is a temp testing function, will be deleted and shall not be used in the final 
-async function saveToFile(dataset: RawDataset) {
-  const outputDir = "stat_fin_data_output";
-  await mkdir(outputDir, { recursive: true });
-
-  const filename = `dataset_${Date.now()}.${dataset.format}`;
-  const filePath = join(outputDir, filename);
+async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
 
-  await writeFile(filePath, dataset.data, "utf-8");
-  logger.info(`Saved to: ${filePath}`);
-}
-
-/**
- * Temporary pretty-print for previewing transformer output.
- * TODO: Remove when DB insert is implemented.
- */
-function prettyPrintResults(result: TransformResult) {
-  console.log('\n' + '═'.repeat(80));
-  console.log(`  SOURCE: ${result.sourceName}`);
-  console.log(`  Records: ${result.records.length} | Skipped: ${result.skipped}`);
-  console.log('═'.repeat(80));
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    printUsage();
+    return name ? 0 : 1;
+  }
 
-  if (result.records.length === 0) {
-    console.log('  (no records)\n');
-    return;
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) {
+    console.error(`Unknown command '${name}'\n`);
+    printUsage();
+    return 1;
   }
 
-  // Column widths
-  const header = `  ${'Postal'.padEnd(7)} ${'Building Type'.padEnd(18)} ${'Date'.padEnd(12)} ${'€/m²'.padStart(8)} ${'Sales'.padStart(7)}`;
-  console.log(header);
-  console.log('  ' + '─'.repeat(76));
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(formatCommandHelp(command));
+    return 0;
+  }
 
-  for (const r of result.records) {
-    const price = r.pricePerSqm !== null ? r.pricePerSqm.toFixed(0).padStart(8) : '     N/A';
-    const count = r.transactionCount !== null ? String(r.transactionCount).padStart(7) : '    N/A';
-    const date = r.date.toISOString().slice(0, 10);
-    console.log(`  ${r.postalCode.padEnd(7)} ${r.buildingType.padEnd(18)} ${date.padEnd(12)} ${price} ${count}`);
+  let values;
+  try {
+    values = parseCommandArgs(command, args);
+  } catch (err) {
+    console.error(`${err instanceof Error ? err.message : err}\n`);
+    console.error(formatCommandHelp(command));
+    return 1;
   }
 
-  console.log('═'.repeat(80) + '\n');
+  logger.info(`Running '${command.name}'...`);
+  await command.run(values);
+  return 0;
 }
 
-await main();
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} catch (err) {
+  logger.error({ err }, 'Command failed');
+  process.exitCode = 1;
+}
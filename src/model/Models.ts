@@ -28,6 +28,8 @@ export interface RawDataset {
     format: string;
     data: string;
     metadata: DatasetMetadata;
+    query?: PxWebQuery;         // Query that produced it, for archiving
+    fetchedAt?: Date;
 }
 
 /**
@@ -68,10 +70,61 @@ export interface ResponseFormat {
  * Allows flexible selection of postal codes, years, building types, and metrics.
  */
 export interface QueryConfig {
+    region?: string;            // Region preset the postal codes were resolved from
     postalCodes: string[];
     years: string[];
     buildingTypes?: string[];   // defaults to all types
-    metrics?: string[];         // defaults to price + transaction count
+    metrics?: string[];         // defaults to the dataset's mapped metrics
+}
+
+// ── Extraction ──
+
+/**
+ * Retry policy for failed PX-Web requests (jittered exponential backoff).
+ */
+export interface RetryOptions {
+    maxRetries: number;         // Retries after the first attempt
+    baseDelayMs: number;        // Backoff ceiling for the first retry
+    maxDelayMs: number;         // Upper bound for any single backoff
+}
+
+/**
+ * Request budget for the PX-Web API: at most `requests` per `windowMs`.
+ */
+export interface RateLimitOptions {
+    requests: number;
+    windowMs: number;
+}
+
+/**
+ * Options for DatasetExtractor. Anything omitted falls back to defaults.
+ */
+export interface ExtractorOptions {
+    retry?: Partial<RetryOptions>;
+    rateLimit?: RateLimitOptions;
+    /** Dimension ids to query; defaults to the stat.fi price table's */
+    dimensions?: DatasetDimensions;
+}
+
+/**
+ * A batch that still failed after all retries.
+ */
+export interface FailedBatch {
+    index: number;              // 0-based batch number
+    postalCodes: string[];
+    error: string;
+}
+
+/**
+ * Outcome of a batched extraction. `status` is 'partial' if any batch
+ * is missing, so callers can decide whether to store or abort.
+ */
+export interface BatchExtractionResult {
+    datasets: RawDataset[];
+    batchesAttempted: number;
+    batchesSucceeded: number;
+    failedBatches: FailedBatch[];
+    status: 'complete' | 'partial';
 }
 
 // ── Transformer output models ──
@@ -109,15 +162,41 @@ export interface BuildingTypeMapping {
     canonicalCode: BuildingTypeCode;
 }
 
+/**
+ * Time resolution of a price figure. The date of a record is the first day
+ * of its period.
+ */
+export type PeriodGranularity = 'year' | 'quarter' | 'month';
+
+/**
+ * What a price figure measures: sale price (€/m²) or monthly rent (€/m²/month).
+ */
+export type PriceMetric = 'sale' | 'rent';
+
+/**
+ * Why a figure is missing or special, from the status symbol the source
+ * attached to it. Canonical like BuildingTypeCode; each source maps its
+ * own symbols (see StatfinStatusSymbols.ts).
+ */
+export type QualityFlag =
+    | 'not_applicable'   // No such figure can exist, e.g. no terraced houses in the area
+    | 'not_available'    // Not collected, or too uncertain to publish
+    | 'confidential'     // Withheld, typically because too few transactions
+    | 'nil'              // True zero
+    | 'less_than_half';  // Rounds to zero
+
 /**
  * A single transformed price record, ready for DB insertion
  */
 export interface PriceRecord {
     postalCode: string;        // '00400'
     buildingType: BuildingTypeCode;
-    date: Date;                // Year → YYYY-01-01
-    pricePerSqm: number | null;
-    transactionCount: number | null;
+    date: Date;                // Year → YYYY-01-01, 2024Q3 → 2024-07-01
+    periodGranularity: PeriodGranularity;
+    metric: PriceMetric;
+    pricePerSqm: number | null;        // €/m², or €/m²/month for rents
+    transactionCount: number | null;   // Sales, or rental agreements for rents
+    qualityFlag: QualityFlag | null;   // Status of the price (else the count); null for plain values
     sourceName: string;        // e.g. 'statfin_ashi_pxt_13mu'
 }
 
@@ -126,8 +205,344 @@ export interface PriceRecord {
  */
 export interface TransformResult {
     records: PriceRecord[];
-    skipped: number;           // Records skipped (e.g. both values null)
+    skipped: number;           // Records skipped (e.g. no values and no status)
     sourceName: string;
     /** Building type mappings used in this transformation (for auditing/storage) */
     buildingTypeMappings: BuildingTypeMapping[];
-}
\ No newline at end of file
+}
+
+// ── Dataset descriptors ──
+
+/**
+ * PriceRecord fields a source metric can fill.
+ */
+export type PriceRecordField = 'pricePerSqm' | 'transactionCount';
+
+/**
+ * Maps one code of the metric dimension to a PriceRecord field.
+ */
+export interface MetricMapping {
+    sourceCode: string;        // e.g. 'keskihinta_aritm_nw'
+    field: PriceRecordField;
+}
+
+/**
+ * Which dimension ids of a PxWeb table play which role, and how its
+ * metrics map to PriceRecord fields.
+ */
+export interface DatasetDimensions {
+    time: string;              // e.g. 'Vuosi', 'Vuosineljännes'
+    area: string;              // e.g. 'Postinumero'
+    buildingType?: string;     // e.g. 'Talotyyppi'; absent in non-price tables
+    metric: string;            // e.g. 'Tiedot'
+    metrics: MetricMapping[];
+    /** Other dimensions pinned to a single value, e.g. { Rahoitusmuoto: '1' } */
+    fixedSelections?: Record<string, string>;
+}
+
+/**
+ * Everything needed to fetch and transform one PxWeb table. Onboarding a
+ * new table means writing one of these (see transformer/StatfinDatasets.ts).
+ */
+export interface DatasetDescriptor {
+    name: string;              // Table id, also the data_source name
+    description: string;
+    url: string;
+    priceMetric: PriceMetric;
+    dimensions: DatasetDimensions;
+    buildingTypeMappings: BuildingTypeMapping[];
+}
+
+// ── Demographics ──
+
+/**
+ * postal_code_demographics fields filled from Paavo indicators.
+ */
+export type DemographicsField =
+    | 'population'
+    | 'averageAge'
+    | 'population0to14'
+    | 'population65Plus'
+    | 'medianHouseholdIncome'
+    | 'dwellings'
+    | 'averageDwellingSize';
+
+/**
+ * Maps Paavo indicator codes to a field. Several codes are summed
+ * (e.g. five-year age groups into 65+).
+ */
+export interface IndicatorMapping {
+    field: DemographicsField;
+    sourceCodes: string[];
+}
+
+/**
+ * A postal code statistics table: dimension ids and indicator mappings.
+ */
+export interface DemographicsDescriptor {
+    name: string;              // Table id, also the data_source name
+    description: string;
+    url: string;
+    dimensions: {
+        time: string;          // e.g. 'Vuosi'
+        area: string;          // e.g. 'Postinumeroalue'
+        indicator: string;     // e.g. 'Tiedot'
+    };
+    indicators: IndicatorMapping[];
+}
+
+/**
+ * Demographics of one postal code in one statistical year.
+ */
+export interface DemographicsRecord {
+    postalCode: string;
+    year: number;
+    population: number | null;
+    averageAge: number | null;
+    population0to14: number | null;
+    population65Plus: number | null;
+    medianHouseholdIncome: number | null;  // €/year
+    dwellings: number | null;
+    averageDwellingSize: number | null;    // m²
+}
+
+export interface DemographicsTransformResult {
+    records: DemographicsRecord[];
+    skipped: number;           // Postal code/year cells with no data at all
+    sourceName: string;
+}
+
+// ── Validation ──
+
+/**
+ * Findings of an 'error' rule abort the store; 'warning' findings are only
+ * reported. 'off' disables the rule.
+ */
+export type ValidationSeverity = 'error' | 'warning';
+export type RuleSeverity = ValidationSeverity | 'off';
+
+/** Validation rules, see validation/ValidationRules.ts */
+export type ValidationRuleName =
+    | 'priceBounds'
+    | 'transactionCount'
+    | 'yoyChange'
+    | 'unknownPostalCode'
+    | 'recordCountDrop';
+
+export interface PriceBounds {
+    min: number;
+    max: number;
+}
+
+/**
+ * Thresholds and severities of the validation rules. Defaults live in
+ * config/validation.ts; a JSON file may override any of them.
+ */
+export interface ValidationConfig {
+    /** Plausible €/m² (rents: €/m²/month) per building type */
+    priceBounds: { severity: RuleSeverity } & Record<PriceMetric, Record<BuildingTypeCode, PriceBounds>>;
+    /** Transaction counts must not be negative */
+    transactionCount: { severity: RuleSeverity };
+    /** Change from the same period a year earlier, incoming or stored */
+    yoyChange: {
+        severity: RuleSeverity;
+        maxChangePercent: number;
+        minTransactions: number;   // Thinner periods swing too much to judge
+    };
+    /** Postal codes not in postal_code yet */
+    unknownPostalCode: { severity: RuleSeverity };
+    /** Records per requested period compared with the previous run of the region */
+    recordCountDrop: {
+        severity: RuleSeverity;
+        maxDropPercent: number;
+    };
+}
+
+/**
+ * One problem a rule found, for a single record unless the rule looks at
+ * the result as a whole.
+ */
+export interface ValidationFinding {
+    rule: ValidationRuleName;
+    severity: ValidationSeverity;
+    message: string;
+    postalCode?: string;
+    buildingType?: BuildingTypeCode;
+    date?: string;              // YYYY-MM-DD
+}
+
+/**
+ * Outcome of validating a TransformResult, stored with the ingestion run.
+ */
+export interface ValidationReport {
+    passed: boolean;            // No error findings
+    errors: number;
+    warnings: number;
+    /** Every rule that ran, with its total number of findings */
+    rules: Array<{ rule: ValidationRuleName; severity: ValidationSeverity; findings: number }>;
+    /** Findings, capped per rule so a systematic problem stays readable */
+    findings: ValidationFinding[];
+}
+
+// ── Ingestion audit ──
+
+/**
+ * Lifecycle of an ingestion run. 'partial' means some batches were missing
+ * but the remaining data was stored anyway.
+ */
+export type IngestionRunStatus = 'running' | 'complete' | 'partial' | 'failed';
+
+/**
+ * How an upsert of price records affected the price_data table.
+ */
+export interface PriceInsertStats {
+    inserted: number;          // New rows
+    updated: number;           // Existing rows whose values changed
+    unchanged: number;         // Existing rows with identical values
+}
+
+/**
+ * Optional context for DatabaseClient.storeTransformResult.
+ */
+export interface StoreOptions {
+    sourceDescription?: string;
+    sourceUrl?: string;
+    /** Dataset 'updated' timestamp; pass only for complete runs */
+    sourceUpdated?: Date;
+    /** Run to attribute detected revisions to */
+    ingestionRunId?: number;
+}
+
+/**
+ * An ingestion_run row as read back for reporting.
+ */
+export interface IngestionRun {
+    id: number;
+    sourceName: string | null;
+    datasetUrl: string;
+    status: IngestionRunStatus;
+    startedAt: Date;
+    finishedAt: Date | null;
+    batchesAttempted: number | null;
+    batchesSucceeded: number | null;
+    recordsInserted: number | null;
+    recordsUpdated: number | null;
+    recordsUnchanged: number | null;
+    skipped: number | null;
+    errors: string[];
+    replayOf: number | null;   // Run whose archived responses this run re-processed
+    validation: ValidationReport | null;
+}
+
+/**
+ * Raw responses archived by one ingestion run, as read back for replay.
+ */
+export interface ArchivedRun {
+    ingestionRunId: number;
+    queryConfig: QueryConfig;
+    responses: RawDataset[];   // In fetch order
+}
+
+/**
+ * Final state of an ingestion run, recorded when the run finishes.
+ */
+export interface IngestionRunOutcome {
+    status: Exclude<IngestionRunStatus, 'running'>;
+    sourceId?: number;
+    batchesAttempted: number;
+    batchesSucceeded: number;
+    stats?: PriceInsertStats;
+    skipped: number;
+    errors: string[];
+    validation?: ValidationReport;
+}
+
+// ── Reporting ──
+
+/**
+ * What we already hold for a data source, used to plan incremental fetches.
+ */
+export interface SourceState {
+    sourceUpdated: Date | null; // Dataset 'updated' timestamp as of the last complete run
+    storedYears: string[];      // Periods with rows in price_data ('2024', or '2024Q3' for quarterly data), ascending
+}
+
+/**
+ * Number of price_data rows for one source and year.
+ */
+export interface SourceYearCount {
+    sourceName: string;
+    year: number;
+    rows: number;
+    rowsWithPrice: number;
+}
+
+/**
+ * Filter for reading price_data back (CLI export). Omitted fields match all.
+ */
+export interface PriceDataFilter {
+    year?: number;
+    buildingType?: string;
+    sourceName?: string;
+    metric?: PriceMetric;
+}
+
+/**
+ * A price_data row joined with its postal code and source, as exported.
+ */
+export interface PriceDataRow {
+    postalCode: string;
+    name: string | null;
+    municipality: string | null;
+    buildingType: string;
+    date: string;               // YYYY-MM-DD
+    periodGranularity: PeriodGranularity;
+    metric: PriceMetric;
+    pricePerSqm: number | null;
+    transactionCount: number | null;
+    qualityFlag: QualityFlag | null;
+    source: string;
+}
+
+// ── Geometry ──
+
+/** GeoJSON position: [longitude, latitude] in WGS84 */
+export type Position = [number, number];
+
+/** Closed linear ring; first and last positions are equal */
+export type Ring = Position[];
+
+export interface Polygon {
+    type: 'Polygon';
+    coordinates: Ring[];
+}
+
+export interface MultiPolygon {
+    type: 'MultiPolygon';
+    coordinates: Ring[][];
+}
+
+export type PolygonalGeometry = Polygon | MultiPolygon;
+
+/** Simplified geometry levels stored alongside the full-resolution geometry */
+export type GeometryDetail = 'low' | 'medium' | 'high';
+
+/**
+ * A postal code area's geometry simplified for one detail level.
+ */
+export interface SimplifiedGeometry {
+    postalCode: string;
+    vintage: number;        // Boundary vintage the geometry was simplified from
+    detail: GeometryDetail;
+    geometry: MultiPolygon;
+}
+
+/**
+ * Two postal code areas sharing a stretch of boundary. Stored in both
+ * directions.
+ */
+export interface Adjacency {
+    postalCode: string;
+    neighbour: string;
+    sharedBoundaryM: number;  // Approximate length of the shared boundary in metres
+}
@@ -0,0 +1,61 @@
+import { createLogger } from '../utils/Logger.ts';
+
+const logger = createLogger('MunicipalityClassificationSource');
+
+/**
+ * A municipality and the region (maakunta) it belongs to.
+ */
+export interface MunicipalityInfo {
+    code: string;          // '091'
+    name: string;          // 'Helsinki'
+    regionCode: string;    // '01'
+    regionName: string;    // 'Uusimaa'
+}
+
+const CLASSIFICATIONS_BASE = 'https://data.stat.fi/api/classifications/v2';
+
+/**
+ * Fetches the municipality → region correspondence from the Statistics
+ * Finland classification service.
+ */
+export class MunicipalityClassificationSource {
+    private baseUrl: string;
+
+    /**
+     * @param baseUrl Classification API root, e.g. a local stand-in;
+     *        defaults to CLASSIFICATIONS_BASE_URL or Statistics Finland
+     */
+    constructor(baseUrl: string = process.env.CLASSIFICATIONS_BASE_URL ?? CLASSIFICATIONS_BASE) {
+        this.baseUrl = baseUrl;
+    }
+
+    /**
+     * @param year Classification year; municipalities merge over time, so
+     *        this should match the postal code areas in use
+     */
+    async fetchMunicipalities(year: number = new Date().getFullYear()): Promise<MunicipalityInfo[]> {
+        const table = `kunta_1_${year}0101%23maakunta_1_${year}0101`;
+        const url = `${this.baseUrl}/correspondenceTables/${table}/maps?content=data&meta=max&lang=fi&format=json`;
+
+        logger.info(`Fetching municipality → region classification for ${year}...`);
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Classification request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as Array<{
+            sourceItem: { code: string; classificationItemNames: Array<{ name: string }> };
+            targetItem: { code: string; classificationItemNames: Array<{ name: string }> };
+        }>;
+
+        logger.info(`Received ${data.length} municipalities`);
+
+        return data.map((m) => ({
+            code: m.sourceItem.code,
+            name: m.sourceItem.classificationItemNames[0]?.name ?? m.sourceItem.code,
+            regionCode: m.targetItem.code,
+            regionName: m.targetItem.classificationItemNames[0]?.name ?? m.targetItem.code,
+        }));
+    }
+}
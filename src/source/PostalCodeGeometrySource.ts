@@ -13,27 +13,41 @@ export interface PostalCodeFeature {
 }
 
 const WFS_BASE = 'https://geo.stat.fi/geoserver/postialue/wfs';
-const LAYER = 'postialue:pno_tilasto_2024';
+
+/** Boundary vintage used when none is asked for */
+export const DEFAULT_BOUNDARY_VINTAGE = 2024;
 
 /**
  * Fetches postal code area geometries from Tilastokeskus WFS API.
  * Returns GeoJSON geometries in WGS84 (EPSG:4326) suitable for Leaflet.
+ *
+ * Postal code areas are split and merged over time; Tilastokeskus
+ * publishes the boundaries of each statistical year as a separate layer
+ * (pno_tilasto_2020, pno_tilasto_2024, ...), selected by `vintage`.
  */
 export class PostalCodeGeometrySource {
+    readonly vintage: number;
+    private layer: string;
+    private baseUrl: string;
+
+    /**
+     * @param baseUrl WFS endpoint, e.g. a local stand-in; defaults to
+     *        WFS_BASE_URL or Tilastokeskus
+     */
+    constructor(vintage: number = DEFAULT_BOUNDARY_VINTAGE, baseUrl: string = process.env.WFS_BASE_URL ?? WFS_BASE) {
+        this.vintage = vintage;
+        this.layer = `postialue:pno_tilasto_${vintage}`;
+        this.baseUrl = baseUrl;
+    }
+
     /**
      * Fetch all postal code areas from WFS.
      * The API returns ~3000 features; we fetch in one request.
      */
     async fetchAll(): Promise<PostalCodeFeature[]> {
-        const url = new URL(WFS_BASE);
-        url.searchParams.set('service', 'WFS');
-        url.searchParams.set('version', '2.0.0');
-        url.searchParams.set('request', 'GetFeature');
-        url.searchParams.set('typeName', LAYER);
-        url.searchParams.set('outputFormat', 'application/json');
-        url.searchParams.set('srsName', 'EPSG:4326');
+        const url = this.buildGetFeatureUrl();
         // Note: propertyName filter excludes geometry, so we fetch all properties
-        logger.info(`Fetching postal code geometries from Tilastokeskus WFS...`);
+        logger.info(`Fetching ${this.vintage} postal code geometries from Tilastokeskus WFS...`);
 
         const response = await fetch(url.toString());
         if (!response.ok) {
@@ -72,13 +86,7 @@ export class PostalCodeGeometrySource {
         const cqlValues = codes.map((c) => `'${c}'`).join(',');
         const cqlFilter = `postinumeroalue IN (${cqlValues})`;
 
-        const url = new URL(WFS_BASE);
-        url.searchParams.set('service', 'WFS');
-        url.searchParams.set('version', '2.0.0');
-        url.searchParams.set('request', 'GetFeature');
-        url.searchParams.set('typeName', LAYER);
-        url.searchParams.set('outputFormat', 'application/json');
-        url.searchParams.set('srsName', 'EPSG:4326');
+        const url = this.buildGetFeatureUrl();
         url.searchParams.set('CQL_FILTER', cqlFilter);
 
         logger.info(`Fetching geometries for ${codes.length} postal codes...`);
@@ -108,4 +116,51 @@ export class PostalCodeGeometrySource {
             geometry: f.geometry,
         }));
     }
+
+    /**
+     * Fetch the municipality of every postal code area, without geometry.
+     * Much lighter than fetchAll(); used to resolve region presets.
+     *
+     * @returns Map of postal code → municipality code (e.g. '00100' → '091')
+     */
+    async fetchMunicipalities(): Promise<Map<string, string>> {
+        const url = this.buildGetFeatureUrl();
+        url.searchParams.set('propertyName', 'postinumeroalue,kunta');
+
+        logger.info('Fetching postal code municipalities from Tilastokeskus WFS...');
+
+        const response = await fetch(url.toString());
+        if (!response.ok) {
+            throw new Error(`WFS request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as {
+            features: Array<{
+                properties: {
+                    postinumeroalue: string;
+                    kunta: string;
+                };
+            }>;
+        };
+
+        logger.info(`Received municipalities for ${data.features.length} postal codes`);
+
+        return new Map(
+            data.features.map((f) => [f.properties.postinumeroalue, f.properties.kunta])
+        );
+    }
+
+    /**
+     * Base GetFeature request for the postal code layer (GeoJSON, WGS84).
+     */
+    private buildGetFeatureUrl(): URL {
+        const url = new URL(this.baseUrl);
+        url.searchParams.set('service', 'WFS');
+        url.searchParams.set('version', '2.0.0');
+        url.searchParams.set('request', 'GetFeature');
+        url.searchParams.set('typeName', this.layer);
+        url.searchParams.set('outputFormat', 'application/json');
+        url.searchParams.set('srsName', 'EPSG:4326');
+        return url;
+    }
 }
@@ -13,10 +13,16 @@ export class PxWebDatasetSource implements AsyncDatasetSource {
     datasetName: string;
     private logger: Logger;
 
-    constructor(datasetUrl: string) {
-        this.datasetUrl = datasetUrl;
-        this.datasetName = this.extractTableName(datasetUrl);
+    /**
+     * @param datasetUrl PX-Web UI or API URL of the table
+     * @param baseUrl Serves the table from another PX-Web installation, such
+     *        as a local stand-in: replaces everything before /api/v1/
+     *        (e.g. 'http://localhost:8080/PXWeb'). Defaults to PXWEB_BASE_URL.
+     */
+    constructor(datasetUrl: string, baseUrl: string | undefined = process.env.PXWEB_BASE_URL) {
         this.logger = createLogger('PxWebDatasetSource');
+        this.datasetUrl = baseUrl ? this.rebaseUrl(datasetUrl, baseUrl) : datasetUrl;
+        this.datasetName = this.extractTableName(datasetUrl);
     }
 
     async fetchMetadata(): Promise<DatasetMetadata> {
@@ -66,6 +72,22 @@ export class PxWebDatasetSource implements AsyncDatasetSource {
         return cleanUrl.replace('/PXWeb/pxweb/', '/PXWeb/api/v1/');
     }
 
+    /**
+     * Moves an API URL onto another base
+     * Example: https://pxdata.stat.fi/PXWeb/api/v1/en/... -> http://localhost:8080/PXWeb/api/v1/en/...
+     */
+    private rebaseUrl(url: string, baseUrl: string): string {
+        const apiUrl = this.convertToApiUrl(url);
+        const apiPos = apiUrl.indexOf('/api/v1/');
+        if (apiPos === -1) {
+            let err: string = `Cannot rebase a URL without /api/v1/ onto ${baseUrl}. URL that was used: ${url}`;
+            this.logger.error(err);
+            throw new Error(err);
+        }
+
+        return baseUrl.replace(/\/$/, '') + apiUrl.substring(apiPos);
+    }
+
     /**
      * Parses the JSON metadata response from PX-Web API
      */
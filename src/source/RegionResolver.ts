@@ -0,0 +1,71 @@
+import { createLogger } from '../utils/Logger.ts';
+
+import type { DatasetMetadata } from '../model/Models.ts';
+import type { RegionPreset } from '../config/regions.ts';
+import type { PostalCodeGeometrySource } from './PostalCodeGeometrySource.ts';
+import type { Logger } from 'pino';
+
+/**
+ * Resolves a RegionPreset to the postal codes available in a dataset.
+ *
+ * Postal codes come from the dataset's own 'Postinumero' variable, so we
+ * never ask for codes the API doesn't know. Municipality presets are joined
+ * with the postal code → municipality mapping from Tilastokeskus WFS.
+ */
+export class RegionResolver {
+    private logger: Logger;
+    private geometrySource: PostalCodeGeometrySource;
+    private municipalities: Map<string, string> | null = null;
+
+    constructor(geometrySource: PostalCodeGeometrySource) {
+        this.logger = createLogger('RegionResolver');
+        this.geometrySource = geometrySource;
+    }
+
+    /**
+     * @returns Postal codes in the region that the dataset has data for
+     */
+    async resolve(
+        region: RegionPreset,
+        metadata: DatasetMetadata,
+        postalVariable: string = 'Postinumero'
+    ): Promise<string[]> {
+        const postalVar = metadata.variables.find((v) => v.code === postalVariable);
+        if (!postalVar) {
+            throw new Error(
+                `Dataset has no '${postalVariable}' variable. Found: ${metadata.variables.map((v) => v.code).join(', ')}`
+            );
+        }
+
+        // Skip aggregate rows such as the whole-country total
+        const datasetCodes = postalVar.values.filter((v) => /^\d{5}$/.test(v));
+
+        if (region.kind === 'country') {
+            this.logger.info(`Region 'finland': ${datasetCodes.length} postal codes`);
+            return datasetCodes;
+        }
+
+        const municipalityOf = await this.getMunicipalities();
+        const wanted = new Set(region.municipalities);
+        const codes = datasetCodes.filter((pc) => {
+            const municipality = municipalityOf.get(pc);
+            return municipality !== undefined && wanted.has(municipality);
+        });
+
+        const unknown = datasetCodes.filter((pc) => !municipalityOf.has(pc)).length;
+        if (unknown > 0) {
+            this.logger.info(`${unknown} dataset postal codes have no current postal area, ignored`);
+        }
+        if (codes.length === 0) {
+            throw new Error(`Region '${region.label}' matched no postal codes in the dataset`);
+        }
+
+        this.logger.info(`Region '${region.label}': ${codes.length} postal codes`);
+        return codes;
+    }
+
+    private async getMunicipalities(): Promise<Map<string, string>> {
+        this.municipalities ??= await this.geometrySource.fetchMunicipalities();
+        return this.municipalities;
+    }
+}
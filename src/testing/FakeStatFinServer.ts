@@ -0,0 +1,362 @@
+import type { Server } from 'bun';
+import type { PxWebQuery, Variable } from '../model/Models.ts';
+import type { MunicipalityInfo } from '../source/MunicipalityClassificationSource.ts';
+
+/**
+ * A PX-Web table served by the stand-in, under /PXWeb/api/v1/{path}.
+ */
+export interface PxWebTableFixture {
+    path: string;               // e.g. 'en/StatFin/statfin_ashi_pxt_13mu.px'
+    title: string;
+    updated?: string;
+    variables: Variable[];
+    /** Value of one cell, keyed by variable code (eliminated variables are absent) */
+    value(cell: Record<string, string>): number | null;
+    /** Status symbol of one cell ('.', '..', ...), if any */
+    status?(cell: Record<string, string>): string | undefined;
+}
+
+/**
+ * A WFS feature type served by the stand-in.
+ */
+export interface WfsLayerFixture {
+    typeName: string;           // e.g. 'postialue:pno_tilasto_2024'
+    features: Array<{ properties: Record<string, string>; geometry: object | null }>;
+}
+
+/**
+ * A municipality → region classification of one year, served as the
+ * correspondence table kunta_1_{year}0101#maakunta_1_{year}0101.
+ */
+export interface ClassificationFixture {
+    year: number;
+    municipalities: MunicipalityInfo[];
+}
+
+export interface FakeStatFinOptions {
+    tables?: PxWebTableFixture[];
+    layers?: WfsLayerFixture[];
+    classifications?: ClassificationFixture[];
+    /** Largest query the PX-Web side answers, like stat.fi's cell limit */
+    maxCells?: number;
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>;
+    body: unknown;
+}
+
+const PXWEB_PREFIX = '/PXWeb/api/v1/';
+const WFS_PATH = '/geoserver/postialue/wfs';
+const CLASSIFICATIONS_PATH = '/api/classifications/v2';
+const DEFAULT_MAX_CELLS = 100_000;
+
+/**
+ * Local stand-in for the Statistics Finland services the fetcher talks to,
+ * serving fixtures over real HTTP so sources, extractor and pipeline can be
+ * tested offline:
+ *
+ * - PX-Web v1: metadata GET and query POST with `item`, `top` and `all`
+ *   filters and elimination, answering json-stat2; unknown tables (404),
+ *   malformed queries (400) and queries over the cell limit (403) fail
+ *   the way stat.fi does.
+ * - WFS 2.0 GetFeature as GeoJSON, with `propertyName` and a CQL_FILTER
+ *   of `prop = 'v'` or `prop IN ('v', ...)`.
+ * - Classification correspondence maps of municipalities to regions;
+ *   years without a fixture are not found (404).
+ *
+ * Point sources at `pxwebBaseUrl`, `wfsBaseUrl` and `classificationsBaseUrl`
+ * (or set PXWEB_BASE_URL, WFS_BASE_URL and CLASSIFICATIONS_BASE_URL).
+ * `failNext` injects errors such as 429 or 503.
+ */
+export class FakeStatFinServer {
+    readonly requests: RecordedRequest[] = [];
+    private server: Server<undefined>;
+    private tables: Map<string, PxWebTableFixture>;
+    private layers: Map<string, WfsLayerFixture>;
+    private classifications: Map<number, ClassificationFixture>;
+    private maxCells: number;
+    private failures: Array<{ status: number; retryAfterSeconds?: number }> = [];
+
+    private constructor(options: FakeStatFinOptions) {
+        this.tables = new Map((options.tables ?? []).map((t) => [t.path, t]));
+        this.layers = new Map((options.layers ?? []).map((l) => [l.typeName, l]));
+        this.classifications = new Map((options.classifications ?? []).map((c) => [c.year, c]));
+        this.maxCells = options.maxCells ?? DEFAULT_MAX_CELLS;
+        this.server = Bun.serve({ port: 0, fetch: (req) => this.handle(req) });
+    }
+
+    /**
+     * Starts the server on a free port.
+     */
+    static start(options: FakeStatFinOptions = {}): FakeStatFinServer {
+        return new FakeStatFinServer(options);
+    }
+
+    get url(): string {
+        return this.server.url.origin;
+    }
+
+    /** Base URL for PxWebDatasetSource, replacing https://pxdata.stat.fi/PXWeb */
+    get pxwebBaseUrl(): string {
+        return `${this.url}/PXWeb`;
+    }
+
+    /** Endpoint for PostalCodeGeometrySource */
+    get wfsBaseUrl(): string {
+        return `${this.url}${WFS_PATH}`;
+    }
+
+    /** Base URL for MunicipalityClassificationSource */
+    get classificationsBaseUrl(): string {
+        return `${this.url}${CLASSIFICATIONS_PATH}`;
+    }
+
+    /**
+     * Answers the next `times` requests with an error status instead.
+     */
+    failNext(status: number, times: number = 1, retryAfterSeconds?: number): void {
+        for (let i = 0; i < times; i++) {
+            this.failures.push({ status, retryAfterSeconds });
+        }
+    }
+
+    stop(): void {
+        this.server.stop(true);
+    }
+
+    private async handle(req: Request): Promise<Response> {
+        const url = new URL(req.url);
+        const body = req.method === 'POST' ? await req.text() : null;
+        let parsedBody: unknown = body;
+        try {
+            parsedBody = body !== null ? JSON.parse(body) : null;
+        } catch {
+            // Recorded as text; the query handler rejects it
+        }
+        this.requests.push({
+            method: req.method,
+            path: url.pathname,
+            params: Object.fromEntries(url.searchParams),
+            body: parsedBody,
+        });
+
+        const failure = this.failures.shift();
+        if (failure) {
+            const headers: Record<string, string> = failure.retryAfterSeconds !== undefined
+                ? { 'Retry-After': String(failure.retryAfterSeconds) }
+                : {};
+            return new Response(`Injected failure (${failure.status})`, { status: failure.status, headers });
+        }
+
+        if (url.pathname.startsWith(PXWEB_PREFIX)) {
+            const table = this.tables.get(url.pathname.slice(PXWEB_PREFIX.length));
+            if (!table) return new Response('Not Found', { status: 404 });
+            if (req.method === 'GET') return this.metadata(table);
+            if (req.method === 'POST') return this.query(table, parsedBody);
+            return new Response('Method Not Allowed', { status: 405 });
+        }
+
+        if (url.pathname === WFS_PATH && req.method === 'GET') {
+            return this.getFeature(url.searchParams);
+        }
+
+        if (url.pathname.startsWith(`${CLASSIFICATIONS_PATH}/`) && req.method === 'GET') {
+            return this.correspondenceMaps(decodeURIComponent(url.pathname.slice(CLASSIFICATIONS_PATH.length)));
+        }
+
+        return new Response('Not Found', { status: 404 });
+    }
+
+    private metadata(table: PxWebTableFixture): Response {
+        return Response.json({
+            title: table.title,
+            updated: table.updated,
+            variables: table.variables,
+        });
+    }
+
+    private query(table: PxWebTableFixture, body: unknown): Response {
+        const query = body as PxWebQuery | null;
+        if (!query || !Array.isArray(query.query)) {
+            return badRequest('Query must be a JSON object with a query array');
+        }
+        if ((query.response?.format ?? 'px') !== 'json-stat2') {
+            return badRequest(`Unsupported response format: ${query.response?.format}`);
+        }
+
+        const dimensions: Array<{ variable: Variable; values: string[] }> = [];
+        for (const variable of table.variables) {
+            const selection = query.query.find((q) => q.code === variable.code)?.selection;
+            if (!selection) {
+                if (variable.elimination) continue;
+                return badRequest(`Variable ${variable.code} cannot be eliminated`);
+            }
+
+            const values = selectValues(variable, selection.filter, selection.values ?? []);
+            if (values === null) {
+                return badRequest(`Invalid selection for ${variable.code}: ${selection.filter} ${JSON.stringify(selection.values)}`);
+            }
+            dimensions.push({ variable, values });
+        }
+
+        const unknown = query.query.find((q) => !table.variables.some((v) => v.code === q.code));
+        if (unknown) {
+            return badRequest(`Unknown variable: ${unknown.code}`);
+        }
+
+        const cells = dimensions.reduce((n, d) => n * d.values.length, 1);
+        if (cells > this.maxCells) {
+            return new Response('Too many values selected', { status: 403 });
+        }
+
+        const value: Array<number | null> = [];
+        const status: Record<string, string> = {};
+        for (let i = 0; i < cells; i++) {
+            // Row-major: the last dimension varies fastest
+            const cell: Record<string, string> = {};
+            let rest = i;
+            for (let d = dimensions.length - 1; d >= 0; d--) {
+                const { variable, values } = dimensions[d]!;
+                cell[variable.code] = values[rest % values.length]!;
+                rest = Math.floor(rest / values.length);
+            }
+
+            value.push(table.value(cell));
+            const symbol = table.status?.(cell);
+            if (symbol) status[String(i)] = symbol;
+        }
+
+        return Response.json({
+            version: '2.0',
+            class: 'dataset',
+            label: table.title,
+            source: 'Statistics Finland',
+            updated: table.updated,
+            id: dimensions.map((d) => d.variable.code),
+            size: dimensions.map((d) => d.values.length),
+            dimension: Object.fromEntries(dimensions.map(({ variable, values }) => [
+                variable.code,
+                {
+                    label: variable.text,
+                    category: {
+                        index: Object.fromEntries(values.map((v, i) => [v, i])),
+                        label: Object.fromEntries(values.map((v) => [v, variable.valueTexts[variable.values.indexOf(v)] ?? v])),
+                    },
+                },
+            ])),
+            value,
+            ...(Object.keys(status).length > 0 ? { status } : {}),
+            role: { time: dimensions.filter((d) => d.variable.time).map((d) => d.variable.code) },
+        });
+    }
+
+    private correspondenceMaps(path: string): Response {
+        const match = path.match(/^\/correspondenceTables\/kunta_1_(\d{4})0101#maakunta_1_(\d{4})0101\/maps$/);
+        const classification = match && match[1] === match[2] ? this.classifications.get(Number(match[1])) : undefined;
+        if (!classification) return new Response('Not Found', { status: 404 });
+
+        return Response.json(classification.municipalities.map((m) => ({
+            sourceItem: { code: m.code, classificationItemNames: [{ name: m.name }] },
+            targetItem: { code: m.regionCode, classificationItemNames: [{ name: m.regionName }] },
+        })));
+    }
+
+    private getFeature(params: URLSearchParams): Response {
+        // OGC parameter names are case-insensitive
+        const param = (name: string) => [...params].find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1] ?? null;
+
+        if (param('service')?.toUpperCase() !== 'WFS' || param('request') !== 'GetFeature') {
+            return wfsException('Only WFS GetFeature is supported');
+        }
+        if (param('outputFormat') !== 'application/json') {
+            return wfsException(`Unsupported outputFormat: ${param('outputFormat')}`);
+        }
+
+        const typeName = param('typeName') ?? param('typeNames');
+        const layer = typeName !== null ? this.layers.get(typeName) : undefined;
+        if (!layer) {
+            return wfsException(`Feature type ${typeName} unknown`);
+        }
+
+        let features = layer.features.map((f, i) => ({ id: `${typeName}.${i + 1}`, ...f }));
+
+        const cql = param('CQL_FILTER');
+        if (cql !== null) {
+            const filter = parseCqlFilter(cql);
+            if (!filter) return wfsException(`Unsupported CQL_FILTER: ${cql}`);
+            features = features.filter((f) => filter.values.includes(f.properties[filter.property] ?? ''));
+        }
+
+        const propertyName = param('propertyName');
+        const properties = propertyName?.split(',') ?? null;
+
+        return Response.json({
+            type: 'FeatureCollection',
+            features: features.map((f) => ({
+                type: 'Feature',
+                id: f.id,
+                geometry: properties === null || properties.includes('geom') ? f.geometry : null,
+                properties: properties === null
+                    ? f.properties
+                    : Object.fromEntries(Object.entries(f.properties).filter(([key]) => properties.includes(key))),
+            })),
+            totalFeatures: features.length,
+            numberMatched: features.length,
+            numberReturned: features.length,
+        });
+    }
+}
+
+/**
+ * Values picked by a PX-Web selection, in table order; null if invalid.
+ */
+function selectValues(variable: Variable, filter: string, values: string[]): string[] | null {
+    switch (filter) {
+        case 'item': {
+            if (values.length === 0 || values.some((v) => !variable.values.includes(v))) return null;
+            return variable.values.filter((v) => values.includes(v));
+        }
+        case 'top': {
+            // The latest N values, which PX-Web lists last
+            const n = parseInt(values[0] ?? '', 10);
+            if (isNaN(n) || n < 1) return null;
+            return variable.values.slice(-n);
+        }
+        case 'all': {
+            // Wildcards: '*' or a prefix such as '20*'
+            const patterns = values.map((p) => new RegExp(`^${p.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`));
+            const selected = variable.values.filter((v) => patterns.some((p) => p.test(v)));
+            return selected.length > 0 ? selected : null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * The subset of ECQL the sources use: `prop = 'v'` and `prop IN ('v', ...)`.
+ */
+function parseCqlFilter(cql: string): { property: string; values: string[] } | null {
+    const match = cql.trim().match(/^(\w+)\s*(?:=\s*('[^']*')|IN\s*\(([^)]*)\))$/i);
+    if (!match) return null;
+
+    const list = match[2] ?? match[3]!;
+    const values = list.split(',').map((v) => v.trim());
+    if (values.some((v) => !/^'[^']*'$/.test(v))) return null;
+
+    return { property: match[1]!, values: values.map((v) => v.slice(1, -1)) };
+}
+
+function badRequest(message: string): Response {
+    return new Response(message, { status: 400 });
+}
+
+function wfsException(message: string): Response {
+    return new Response(
+        `<?xml version="1.0" encoding="UTF-8"?><ows:ExceptionReport version="2.0.0" xmlns:ows="http://www.opengis.net/ows/1.1"><ows:Exception exceptionCode="InvalidParameterValue"><ows:ExceptionText>${message}</ows:ExceptionText></ows:Exception></ows:ExceptionReport>`,
+        { status: 400, headers: { 'Content-Type': 'application/xml' } }
+    );
+}
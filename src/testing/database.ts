@@ -0,0 +1,25 @@
+import postgres from 'postgres';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const DB_DIR = join(import.meta.dir, '../../db');
+
+/**
+ * Readies a throwaway database for pipeline tests: an empty database gets
+ * the schema and every migration, in the order docker-compose mounts them;
+ * one already initialised (e.g. by the postgres container) is left as is.
+ */
+export async function prepareTestDatabase(url: string): Promise<void> {
+    const sql = postgres(url, { onnotice: () => {} });
+    try {
+        const [row] = await sql`SELECT to_regclass('price_data') IS NOT NULL AS initialised`;
+        if (row?.initialised) return;
+
+        const migrations = (await readdir(DB_DIR)).filter((f) => /^\d{3}-.+\.sql$/.test(f)).sort();
+        for (const file of ['schema.sql', ...migrations]) {
+            await sql.unsafe(await readFile(join(DB_DIR, file), 'utf8'));
+        }
+    } finally {
+        await sql.end();
+    }
+}
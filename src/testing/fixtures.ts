@@ -0,0 +1,87 @@
+import { STATFIN_PRICES_BY_POSTAL_CODE } from '../transformer/StatfinDatasets.ts';
+import type { ClassificationFixture, PxWebTableFixture, WfsLayerFixture } from './FakeStatFinServer.ts';
+
+/** Postal code → [name, municipality code, 2022 price of a one-room flat] */
+const AREAS: Record<string, [string, string, number]> = {
+    '00100': ['Helsinki keskusta - Etu-Töölö', '091', 7000],
+    '00200': ['Lauttasaari', '091', 5500],
+    '01300': ['Tikkurila', '092', 3000],
+    '02100': ['Tapiola', '049', 5000],
+    '33100': ['Tampere keskus', '837', 3500],
+};
+
+const BUILDING_TYPES = ['1', '2', '3', '5'];
+
+/**
+ * A small copy of the old dwelling prices table (statfin_ashi_pxt_13mu):
+ * five postal codes plus the whole-country row, 2022–2024. Prices rise
+ * 100 €/m² a year and fall 200 €/m² per building type step; Lauttasaari
+ * has no terraced houses ('.').
+ */
+export const PRICES_TABLE_FIXTURE: PxWebTableFixture = {
+    path: STATFIN_PRICES_BY_POSTAL_CODE.url.split('/api/v1/')[1]!,
+    title: 'Prices per square meter of old dwellings in housing companies and numbers of transactions by postal code area, yearly',
+    updated: '2025-01-31T05:00:00Z',
+    variables: [
+        { code: 'Vuosi', text: 'Year', values: ['2022', '2023', '2024'], valueTexts: ['2022', '2023', '2024'], time: true },
+        {
+            code: 'Postinumero',
+            text: 'Postal code',
+            values: ['SSS', ...Object.keys(AREAS)],
+            valueTexts: ['WHOLE COUNTRY', ...Object.entries(AREAS).map(([code, [name]]) => `${code} ${name}`)],
+        },
+        {
+            code: 'Talotyyppi',
+            text: 'Building type',
+            values: BUILDING_TYPES,
+            valueTexts: ['Blocks of flats, one-room flat', 'Blocks of flats, two-room flat', 'Blocks of flats, three-room flat+', 'Terraced houses total'],
+        },
+        {
+            code: 'Tiedot',
+            text: 'Information',
+            values: ['keskihinta_aritm_nw', 'lkm_julk20'],
+            valueTexts: ['Price per square meter (EUR/m2)', 'Number of sales'],
+        },
+    ],
+    value(cell) {
+        if (this.status?.(cell)) return null;
+        const base = AREAS[cell.Postinumero!]?.[2] ?? 2500;
+        const type = BUILDING_TYPES.indexOf(cell.Talotyyppi!);
+        if (cell.Tiedot === 'lkm_julk20') return 40 - type * 5;
+        return base + (Number(cell.Vuosi) - 2022) * 100 - type * 200;
+    },
+    status(cell) {
+        return cell.Postinumero === '00200' && cell.Talotyyppi === '5' ? '.' : undefined;
+    },
+};
+
+/**
+ * Postal code areas of the 2024 boundary vintage: 0.01° squares along a
+ * row, one per postal code of the prices fixture.
+ */
+export const POSTAL_CODE_LAYER_FIXTURE: WfsLayerFixture = {
+    typeName: 'postialue:pno_tilasto_2024',
+    features: Object.entries(AREAS).map(([code, [name, municipality]], i) => {
+        const [x, y] = [24.9 + i * 0.01, 60.2];
+        return {
+            properties: { postinumeroalue: code, nimi: name, kunta: municipality },
+            geometry: {
+                type: 'MultiPolygon',
+                coordinates: [[[[x, y], [x + 0.01, y], [x + 0.01, y + 0.01], [x, y + 0.01], [x, y]]]],
+            },
+        };
+    }),
+};
+
+/**
+ * The 2024 municipality → region classification of the fixture areas.
+ */
+export const MUNICIPALITY_CLASSIFICATION_FIXTURE: ClassificationFixture = {
+    year: 2024,
+    municipalities: [
+        { code: '049', name: 'Espoo', regionCode: '01', regionName: 'Uusimaa' },
+        { code: '091', name: 'Helsinki', regionCode: '01', regionName: 'Uusimaa' },
+        { code: '092', name: 'Vantaa', regionCode: '01', regionName: 'Uusimaa' },
+        { code: '837', name: 'Tampere', regionCode: '06', regionName: 'Pirkanmaa' },
+    ],
+};
@@ -1,31 +1,27 @@
 import { createLogger } from '../utils/Logger.ts';
+import { parsePeriod } from '../utils/Period.ts';
+import { STATFIN_PRICES_BY_POSTAL_CODE } from './StatfinDatasets.ts';
+import { qualityFlagOf } from './StatfinStatusSymbols.ts';
+import { cellStatus, cellValue, parseJsonStat2 } from './JsonStat.ts';
+import type { JsonStatCube } from './JsonStat.ts';
 
 import type {
     RawDataset,
     BuildingTypeCode,
     BuildingTypeMapping,
+    DatasetDimensions,
+    PriceMetric,
     PriceRecord,
+    PriceRecordField,
+    QualityFlag,
     TransformResult,
 } from '../model/Models.ts';
 import type { Logger } from 'pino';
 
-/**
- * Known metric codes from the PxWeb dataset.
- * Used to identify which value in the flat array is price vs transaction count.
- */
-const METRIC_PRICE = 'keskihinta_aritm_nw';
-const METRIC_COUNT = 'lkm_julk20';
-
 /**
  * Transforms a RawDataset (json-stat2 format from PxWeb) into
  * structured PriceRecord[] ready for database insertion.
- *
- * The json-stat2 format stores values in a flat array where the position
- * is determined by the cartesian product of all dimension indices:
- *   index = i_dim0 * size[1]*size[2]*...*size[n]
- *         + i_dim1 * size[2]*...*size[n]
- *         + ...
- *         + i_dimN
+ * See JsonStat.ts for how values are laid out.
  */
 export class DatasetTransformer {
     private logger: Logger;
@@ -33,6 +29,8 @@ export class DatasetTransformer {
     private rawDataset: RawDataset;
     private buildingTypeMap: Map<string, BuildingTypeCode>;
     private buildingTypeMappings: BuildingTypeMapping[];
+    private dimensions: DatasetDimensions;
+    private metric: PriceMetric;
 
     /**
      * @param rawDataset The raw json-stat2 dataset
@@ -40,16 +38,23 @@ export class DatasetTransformer {
      * @param buildingTypeMappings Maps source codes to canonical types.
      *        Each source provides its own mapping so different data sources
      *        can map their codes/labels to the same canonical building types.
+     * @param dimensions Dimension ids and metric mappings of the table,
+     *        from its DatasetDescriptor (defaults to statfin_ashi_pxt_13mu)
+     * @param metric Whether the table holds sale prices or rents
      */
     constructor(
         rawDataset: RawDataset,
         datasetName: string,
-        buildingTypeMappings: BuildingTypeMapping[]
+        buildingTypeMappings: BuildingTypeMapping[],
+        dimensions: DatasetDimensions = STATFIN_PRICES_BY_POSTAL_CODE.dimensions,
+        metric: PriceMetric = 'sale'
     ) {
         this.logger = createLogger('DatasetTransformer');
         this.rawDataset = rawDataset;
         this.sourceName = datasetName;
         this.buildingTypeMappings = buildingTypeMappings;
+        this.dimensions = dimensions;
+        this.metric = metric;
 
         // Build lookup: sourceCode → canonicalCode
         this.buildingTypeMap = new Map(
@@ -63,26 +68,17 @@ export class DatasetTransformer {
     transform(): TransformResult {
         this.logger.info('Starting transformation...');
 
-        const jsonStat = JSON.parse(this.rawDataset.data);
+        const cube = parseJsonStat2(this.rawDataset.data);
+        const { dimensionIds, sizes, strides } = cube;
 
-        // Validate format
-        if (jsonStat.class !== 'dataset') {
-            throw new Error(`Unexpected json-stat2 class: ${jsonStat.class}`);
-        }
+        // For each dimension, an ordered array of codes
+        const dimensions = cube.categories;
 
-        const dimensionIds: string[] = jsonStat.id;   // e.g. ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot']
-        const sizes: number[] = jsonStat.size;          // e.g. [1, 1, 4, 2]
-        const values: (number | null)[] = jsonStat.value;
-        const statusMap: Record<string, string> = jsonStat.status ?? {};
-
-        // Build dimension lookup: for each dimension, an ordered array of codes
-        const dimensions = this.buildDimensionLookup(jsonStat.dimension, dimensionIds);
-
-        // Find dimension indices by their role/id
-        const yearDimIdx = dimensionIds.indexOf('Vuosi');
-        const postalDimIdx = dimensionIds.indexOf('Postinumero');
-        const typeDimIdx = dimensionIds.indexOf('Talotyyppi');
-        const metricDimIdx = dimensionIds.indexOf('Tiedot');
+        // Find dimension indices by the ids the descriptor gives them
+        const yearDimIdx = dimensionIds.indexOf(this.dimensions.time);
+        const postalDimIdx = dimensionIds.indexOf(this.dimensions.area);
+        const typeDimIdx = dimensionIds.indexOf(this.dimensions.buildingType ?? '');
+        const metricDimIdx = dimensionIds.indexOf(this.dimensions.metric);
 
         if ([yearDimIdx, postalDimIdx, typeDimIdx, metricDimIdx].includes(-1)) {
             throw new Error(
@@ -90,10 +86,14 @@ export class DatasetTransformer {
             );
         }
 
-        // Find metric indices within the Tiedot dimension
+        // Find the index of each mapped metric within the metric dimension
         const metricCodes = dimensions[metricDimIdx];
-        const priceMetricIdx = metricCodes.indexOf(METRIC_PRICE);
-        const countMetricIdx = metricCodes.indexOf(METRIC_COUNT);
+        const metricIdx = (field: PriceRecordField): number => {
+            const mapping = this.dimensions.metrics.find((m) => m.field === field);
+            return mapping ? metricCodes.indexOf(mapping.sourceCode) : -1;
+        };
+        const priceMetricIdx = metricIdx('pricePerSqm');
+        const countMetricIdx = metricIdx('transactionCount');
 
         if (priceMetricIdx === -1 && countMetricIdx === -1) {
             throw new Error(
@@ -101,8 +101,15 @@ export class DatasetTransformer {
             );
         }
 
-        // Pre-compute stride for each dimension (for flat array indexing)
-        const strides = this.computeStrides(sizes);
+        // Any other dimension (e.g. a fixed selection) must be a single value,
+        // otherwise its values would silently be mixed into one record
+        const roleIdx = [yearDimIdx, postalDimIdx, typeDimIdx, metricDimIdx];
+        const extra = dimensionIds.filter((id, i) => !roleIdx.includes(i) && sizes[i] !== 1);
+        if (extra.length > 0) {
+            throw new Error(
+                `Dimension(s) ${extra.join(', ')} have several values; pin them with fixedSelections`
+            );
+        }
 
         const records: PriceRecord[] = [];
         let skipped = 0;
@@ -113,8 +120,8 @@ export class DatasetTransformer {
         const typeCodes = dimensions[typeDimIdx];
 
         for (let yi = 0; yi < yearCodes.length; yi++) {
-            const year = yearCodes[yi];
-            const date = new Date(`${year}-01-01T00:00:00Z`);
+            // '2024' → 2024-01-01, '2024Q3' → 2024-07-01
+            const { date, granularity } = parsePeriod(yearCodes[yi]!);
 
             for (let pi = 0; pi < postalCodes.length; pi++) {
                 const postalCode = postalCodes[pi];
@@ -139,18 +146,18 @@ export class DatasetTransformer {
                         dimensionIds.length
                     );
 
-                    const priceValue =
-                        priceMetricIdx !== -1
-                            ? this.getValue(values, baseIndex, priceMetricIdx, strides[metricDimIdx], statusMap)
-                            : null;
+                    const price = this.readCell(cube, priceMetricIdx, baseIndex + priceMetricIdx * strides[metricDimIdx]);
+                    const count = this.readCell(cube, countMetricIdx, baseIndex + countMetricIdx * strides[metricDimIdx]);
+
+                    // A nil count is a real zero: no sales that year
+                    const countValue = count.flag === 'nil' ? 0 : count.value;
 
-                    const countValue =
-                        countMetricIdx !== -1
-                            ? this.getValue(values, baseIndex, countMetricIdx, strides[metricDimIdx], statusMap)
-                            : null;
+                    // The price's status explains the record; the count's is
+                    // the fallback (e.g. sales suppressed along with the price)
+                    const qualityFlag = price.flag ?? count.flag;
 
-                    // Skip if both values are null (no data at all)
-                    if (priceValue === null && countValue === null) {
+                    // Skip only cells with no data and no status explaining why
+                    if (price.value === null && countValue === null && qualityFlag === null) {
                         skipped++;
                         continue;
                     }
@@ -159,8 +166,11 @@ export class DatasetTransformer {
                         postalCode,
                         buildingType,
                         date,
-                        pricePerSqm: priceValue,
+                        periodGranularity: granularity,
+                        metric: this.metric,
+                        pricePerSqm: price.value,
                         transactionCount: countValue !== null ? Math.round(countValue) : null,
+                        qualityFlag,
                         sourceName: this.sourceName,
                     });
                 }
@@ -180,37 +190,20 @@ export class DatasetTransformer {
     }
 
     /**
-     * Builds an ordered array of category codes for each dimension.
+     * Value and quality flag of one metric's cell; both null when the table
+     * has no such metric.
      */
-    private buildDimensionLookup(
-        dimensionObj: Record<string, any>,
-        dimensionIds: string[]
-    ): string[][] {
-        return dimensionIds.map((dimId) => {
-            const dim = dimensionObj[dimId];
-            if (!dim?.category?.index) {
-                throw new Error(`Dimension '${dimId}' missing category index`);
-            }
-            // category.index is { code: position }, we need codes ordered by position
-            const indexMap: Record<string, number> = dim.category.index;
-            const entries = Object.entries(indexMap).sort(
-                ([, a], [, b]) => a - b
-            );
-            return entries.map(([code]) => code);
-        });
-    }
-
-    /**
-     * Computes strides for each dimension in the flat value array.
-     * stride[i] = product of sizes[i+1] * sizes[i+2] * ... * sizes[n-1]
-     */
-    private computeStrides(sizes: number[]): number[] {
-        const strides = new Array(sizes.length);
-        strides[sizes.length - 1] = 1;
-        for (let i = sizes.length - 2; i >= 0; i--) {
-            strides[i] = strides[i + 1] * sizes[i + 1];
-        }
-        return strides;
+    private readCell(
+        cube: JsonStatCube,
+        metricIdx: number,
+        flatIndex: number
+    ): { value: number | null; flag: QualityFlag | null } {
+        if (metricIdx === -1) return { value: null, flag: null };
+        const status = cellStatus(cube, flatIndex);
+        return {
+            value: cellValue(cube, flatIndex),
+            flag: status !== null ? qualityFlagOf(status) : null,
+        };
     }
 
     /**
@@ -230,27 +223,4 @@ export class DatasetTransformer {
         }
         return flatIndex;
     }
-
-    /**
-     * Gets a value from the flat array, respecting the status map for
-     * confidential/missing data.
-     */
-    private getValue(
-        values: (number | null)[],
-        baseIndex: number,
-        metricOffset: number,
-        metricStride: number,
-        statusMap: Record<string, string>
-    ): number | null {
-        const idx = baseIndex + metricOffset * metricStride;
-        const statusKey = String(idx);
-
-        // If status indicates confidential or missing, return null
-        if (statusMap[statusKey]) {
-            return null;
-        }
-
-        const val = values[idx];
-        return val !== null && val !== undefined ? val : null;
-    }
 }
@@ -0,0 +1,118 @@
+import { createLogger } from '../utils/Logger.ts';
+import { cellValue, parseJsonStat2 } from './JsonStat.ts';
+
+import type {
+    RawDataset,
+    DemographicsDescriptor,
+    DemographicsRecord,
+    DemographicsTransformResult,
+} from '../model/Models.ts';
+import type { Logger } from 'pino';
+
+/**
+ * Transforms a Paavo json-stat2 dataset (postal code × indicator × year)
+ * into one DemographicsRecord per postal code and year.
+ */
+export class DemographicsTransformer {
+    private logger: Logger;
+    private rawDataset: RawDataset;
+    private descriptor: DemographicsDescriptor;
+
+    constructor(rawDataset: RawDataset, descriptor: DemographicsDescriptor) {
+        this.logger = createLogger('DemographicsTransformer');
+        this.rawDataset = rawDataset;
+        this.descriptor = descriptor;
+    }
+
+    transform(): DemographicsTransformResult {
+        this.logger.info('Starting transformation...');
+
+        const cube = parseJsonStat2(this.rawDataset.data);
+        const { dimensionIds, strides } = cube;
+        const { time, area, indicator } = this.descriptor.dimensions;
+
+        const timeIdx = dimensionIds.indexOf(time);
+        const areaIdx = dimensionIds.indexOf(area);
+        const indicatorIdx = dimensionIds.indexOf(indicator);
+
+        if ([timeIdx, areaIdx, indicatorIdx].includes(-1)) {
+            throw new Error(
+                `Missing expected dimension(s). Found: ${dimensionIds.join(', ')}`
+            );
+        }
+
+        const years = cube.categories[timeIdx]!;
+        const postalCodes = cube.categories[areaIdx]!;
+        const indicatorCodes = cube.categories[indicatorIdx]!;
+
+        // Position of each mapped indicator in the cube; a field is only
+        // filled when all of its codes were fetched
+        const fields = this.descriptor.indicators.map((m) => ({
+            field: m.field,
+            positions: m.sourceCodes.map((code) => indicatorCodes.indexOf(code)),
+        }));
+
+        const missing = this.descriptor.indicators
+            .flatMap((m) => m.sourceCodes)
+            .filter((code) => !indicatorCodes.includes(code));
+        if (missing.length > 0) {
+            this.logger.warn(`Indicators not in dataset: ${missing.join(', ')}`);
+        }
+
+        const records: DemographicsRecord[] = [];
+        let skipped = 0;
+
+        for (let yi = 0; yi < years.length; yi++) {
+            const year = parseInt(years[yi]!, 10);
+
+            for (let pi = 0; pi < postalCodes.length; pi++) {
+                const postalCode = postalCodes[pi]!;
+                // Skip aggregate areas such as the whole-country total
+                if (!/^\d{5}$/.test(postalCode)) continue;
+
+                const base = yi * strides[timeIdx]! + pi * strides[areaIdx]!;
+                const record: DemographicsRecord = {
+                    postalCode,
+                    year,
+                    population: null,
+                    averageAge: null,
+                    population0to14: null,
+                    population65Plus: null,
+                    medianHouseholdIncome: null,
+                    dwellings: null,
+                    averageDwellingSize: null,
+                };
+
+                let hasData = false;
+                for (const { field, positions } of fields) {
+                    const value = this.sum(
+                        positions.map((p) => p === -1 ? null : cellValue(cube, base + p * strides[indicatorIdx]!))
+                    );
+                    record[field] = value;
+                    hasData ||= value !== null;
+                }
+
+                if (!hasData) {
+                    skipped++;
+                    continue;
+                }
+                records.push(record);
+            }
+        }
+
+        this.logger.info(
+            `Transformation complete: ${records.length} records, ${skipped} skipped`
+        );
+
+        return { records, skipped, sourceName: this.descriptor.name };
+    }
+
+    /**
+     * Sums the values of a multi-code field; null if any part is missing,
+     * so a partial sum is never mistaken for the real total.
+     */
+    private sum(values: (number | null)[]): number | null {
+        if (values.length === 0 || values.some((v) => v === null)) return null;
+        return values.reduce<number>((acc, v) => acc + v!, 0);
+    }
+}
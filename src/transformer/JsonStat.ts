@@ -0,0 +1,94 @@
+/**
+ * A parsed json-stat2 dataset (the format PxWeb returns).
+ *
+ * Values are stored in a flat array where the position is determined by
+ * the cartesian product of all dimension indices:
+ *   index = i_dim0 * stride[0] + i_dim1 * stride[1] + ... + i_dimN
+ *   stride[i] = size[i+1] * size[i+2] * ... * size[n-1]
+ */
+export interface JsonStatCube {
+    dimensionIds: string[];         // e.g. ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot']
+    sizes: number[];                // e.g. [1, 1, 4, 2]
+    categories: string[][];         // Category codes of each dimension, in index order
+    strides: number[];
+    values: (number | null)[];
+    status: Record<string, string>; // Flat index → status symbol ('.', '..', ...)
+}
+
+/**
+ * Parses a json-stat2 document. Throws if it isn't a dataset or a
+ * dimension lacks its category index.
+ */
+export function parseJsonStat2(data: string): JsonStatCube {
+    const jsonStat = JSON.parse(data);
+
+    if (jsonStat.class !== 'dataset') {
+        throw new Error(`Unexpected json-stat2 class: ${jsonStat.class}`);
+    }
+
+    const dimensionIds: string[] = jsonStat.id;
+    const sizes: number[] = jsonStat.size;
+
+    return {
+        dimensionIds,
+        sizes,
+        categories: buildDimensionLookup(jsonStat.dimension, dimensionIds),
+        strides: computeStrides(sizes),
+        values: jsonStat.value,
+        status: jsonStat.status ?? {},
+    };
+}
+
+/**
+ * Gets a value from the flat array, respecting the status map for
+ * confidential/missing data.
+ */
+export function cellValue(cube: JsonStatCube, flatIndex: number): number | null {
+    // If status indicates confidential or missing, return null
+    if (cube.status[String(flatIndex)]) {
+        return null;
+    }
+
+    const val = cube.values[flatIndex];
+    return val !== null && val !== undefined ? val : null;
+}
+
+/**
+ * The status symbol of a cell ('.', '..', '...'), or null if it has none.
+ */
+export function cellStatus(cube: JsonStatCube, flatIndex: number): string | null {
+    return cube.status[String(flatIndex)] ?? null;
+}
+
+/**
+ * Builds an ordered array of category codes for each dimension.
+ */
+function buildDimensionLookup(
+    dimensionObj: Record<string, any>,
+    dimensionIds: string[]
+): string[][] {
+    return dimensionIds.map((dimId) => {
+        const dim = dimensionObj[dimId];
+        if (!dim?.category?.index) {
+            throw new Error(`Dimension '${dimId}' missing category index`);
+        }
+        // category.index is { code: position }, we need codes ordered by position
+        const indexMap: Record<string, number> = dim.category.index;
+        const entries = Object.entries(indexMap).sort(
+            ([, a], [, b]) => a - b
+        );
+        return entries.map(([code]) => code);
+    });
+}
+
+/**
+ * Computes strides for each dimension in the flat value array.
+ */
+function computeStrides(sizes: number[]): number[] {
+    const strides: number[] = new Array(sizes.length);
+    strides[sizes.length - 1] = 1;
+    for (let i = sizes.length - 2; i >= 0; i--) {
+        strides[i] = strides[i + 1]! * sizes[i + 1]!;
+    }
+    return strides;
+}
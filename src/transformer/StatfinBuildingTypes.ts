@@ -64,6 +64,36 @@ export const STATFIN_BUILDING_TYPE_MAPPINGS: BuildingTypeMapping[] = [
     },
 ];
 
+/**
+ * Room-count mappings for Statistics Finland rents (statfin_asvu_pxt_13eb).
+ *
+ * The rent table has no building type dimension; it covers flats split by
+ * "Huoneluku" (number of rooms), which line up with our apartment types.
+ * 'SSS' is the all-flats total.
+ */
+export const STATFIN_RENT_ROOM_MAPPINGS: BuildingTypeMapping[] = [
+    {
+        sourceCode: 'SSS',
+        sourceLabel: 'Total',
+        canonicalCode: 'all',
+    },
+    {
+        sourceCode: '01',
+        sourceLabel: 'One-room flat',
+        canonicalCode: 'apartment_1r',
+    },
+    {
+        sourceCode: '02',
+        sourceLabel: 'Two-room flat',
+        canonicalCode: 'apartment_2r',
+    },
+    {
+        sourceCode: '03',
+        sourceLabel: 'Three-room flat+',
+        canonicalCode: 'apartment_3r_plus',
+    },
+];
+
 /**
  * Utility: builds BuildingTypeMappings from a json-stat2 dimension,
  * using a provided code→canonical lookup.
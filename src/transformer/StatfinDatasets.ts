@@ -0,0 +1,91 @@
+import { STATFIN_BUILDING_TYPE_MAPPINGS, STATFIN_RENT_ROOM_MAPPINGS } from './StatfinBuildingTypes.ts';
+import type { DatasetDescriptor, DemographicsDescriptor } from '../model/Models.ts';
+
+/**
+ * Prices of old dwellings in housing companies by postal code, yearly
+ * (statfin_ashi_pxt_13mu).
+ */
+export const STATFIN_PRICES_BY_POSTAL_CODE: DatasetDescriptor = {
+    name: 'statfin_ashi_pxt_13mu',
+    description: 'Statistics Finland - prices of old dwellings in housing companies',
+    url: 'https://pxdata.stat.fi/PXWeb/api/v1/en/StatFin/statfin_ashi_pxt_13mu.px',
+    priceMetric: 'sale',
+    dimensions: {
+        time: 'Vuosi',
+        area: 'Postinumero',
+        buildingType: 'Talotyyppi',
+        metric: 'Tiedot',
+        metrics: [
+            { sourceCode: 'keskihinta_aritm_nw', field: 'pricePerSqm' },
+            { sourceCode: 'lkm_julk20', field: 'transactionCount' },
+        ],
+    },
+    buildingTypeMappings: STATFIN_BUILDING_TYPE_MAPPINGS,
+};
+
+/**
+ * Average rents of dwellings by postal code, yearly (statfin_asvu_pxt_13eb).
+ * Only non-subsidised (free-market) rents are fetched, since those are
+ * what a buyer letting out a flat could charge.
+ */
+export const STATFIN_RENTS_BY_POSTAL_CODE: DatasetDescriptor = {
+    name: 'statfin_asvu_pxt_13eb',
+    description: 'Statistics Finland - average rents of dwellings',
+    url: 'https://pxdata.stat.fi/PXWeb/api/v1/en/StatFin/statfin_asvu_pxt_13eb.px',
+    priceMetric: 'rent',
+    dimensions: {
+        time: 'Vuosi',
+        area: 'Postinumero',
+        buildingType: 'Huoneluku',
+        metric: 'Tiedot',
+        metrics: [
+            { sourceCode: 'keskivuokra', field: 'pricePerSqm' },
+            { sourceCode: 'lkm', field: 'transactionCount' },
+        ],
+        fixedSelections: { Rahoitusmuoto: '1' },  // Non-subsidised
+    },
+    buildingTypeMappings: STATFIN_RENT_ROOM_MAPPINGS,
+};
+
+/**
+ * All tables the fetcher knows how to handle, by table id.
+ *
+ * To onboard another PxWeb table, add a descriptor here with its dimension
+ * ids, metric codes and a building type mapping array.
+ */
+export const DATASET_DESCRIPTORS: DatasetDescriptor[] = [
+    STATFIN_PRICES_BY_POSTAL_CODE,
+    STATFIN_RENTS_BY_POSTAL_CODE,
+];
+
+/**
+ * Looks up the descriptor for a table id (e.g. 'statfin_ashi_pxt_13mu').
+ */
+export function findDatasetDescriptor(name: string): DatasetDescriptor | undefined {
+    return DATASET_DESCRIPTORS.find((d) => d.name === name);
+}
+
+/**
+ * Paavo - open data by postal code area, time series of all indicators.
+ * Paavo is republished every year; update the table id when a new release
+ * replaces this one.
+ */
+export const PAAVO_BY_POSTAL_CODE: DemographicsDescriptor = {
+    name: 'paavo_pxt_12f7',
+    description: 'Statistics Finland - Paavo, open data by postal code area',
+    url: 'https://pxdata.stat.fi/PXWeb/api/v1/en/Postinumeroalueittainen_avoin_tieto/paavo_pxt_12f7.px',
+    dimensions: {
+        time: 'Vuosi',
+        area: 'Postinumeroalue',
+        indicator: 'Tiedot',
+    },
+    indicators: [
+        { field: 'population', sourceCodes: ['he_vakiy'] },
+        { field: 'averageAge', sourceCodes: ['he_kika'] },
+        { field: 'population0to14', sourceCodes: ['pt_0_14'] },
+        { field: 'population65Plus', sourceCodes: ['he_65_69', 'he_70_74', 'he_75_79', 'he_80_84', 'he_85_'] },
+        { field: 'medianHouseholdIncome', sourceCodes: ['tr_mtu'] },
+        { field: 'dwellings', sourceCodes: ['ra_asunn'] },
+        { field: 'averageDwellingSize', sourceCodes: ['ra_as_kpa'] },
+    ],
+};
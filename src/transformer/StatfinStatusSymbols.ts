@@ -0,0 +1,22 @@
+import type { QualityFlag } from '../model/Models.ts';
+
+/**
+ * Status symbols Statistics Finland uses in PxWeb tables (json-stat2
+ * `status`), mapped to canonical quality flags.
+ */
+export const STATFIN_STATUS_SYMBOLS: Record<string, QualityFlag> = {
+    '.': 'not_applicable',     // Category not applicable
+    '..': 'not_available',     // Data not available or too uncertain for presentation
+    '...': 'confidential',     // Data subject to secrecy
+    '-': 'nil',                // Magnitude nil
+    '0': 'less_than_half',     // Magnitude less than half of the unit used
+    '0.0': 'less_than_half',
+};
+
+/**
+ * Quality flag for a status symbol. Unknown symbols still mark the figure
+ * as unusable, so they count as not available.
+ */
+export function qualityFlagOf(symbol: string): QualityFlag {
+    return STATFIN_STATUS_SYMBOLS[symbol] ?? 'not_available';
+}
@@ -1,7 +1,8 @@
 import { describe, test, expect } from 'bun:test';
 import { DatasetTransformer } from '../DatasetTransformer.ts';
 import { STATFIN_BUILDING_TYPE_MAPPINGS } from '../StatfinBuildingTypes.ts';
-import type { RawDataset, DatasetMetadata, BuildingTypeMapping } from '../../model/Models.ts';
+import { STATFIN_PRICES_BY_POSTAL_CODE, STATFIN_RENTS_BY_POSTAL_CODE } from '../StatfinDatasets.ts';
+import type { RawDataset, DatasetMetadata, BuildingTypeMapping, DatasetDimensions } from '../../model/Models.ts';
 
 // ── Test helpers ──
 
@@ -21,8 +22,10 @@ function buildJsonStat2(opts: {
     metrics: Record<string, string>;       // code → label
     values: (number | null)[];
     status?: Record<string, string>;
+    timeDimension?: string;                // defaults to 'Vuosi'
 }): string {
     const { years, postalCodes, buildingTypes, metrics, values, status } = opts;
+    const timeDimension = opts.timeDimension ?? 'Vuosi';
 
     const buildIndex = (keys: string[]) =>
         Object.fromEntries(keys.map((k, i) => [k, i]));
@@ -31,7 +34,7 @@ function buildJsonStat2(opts: {
 
     return JSON.stringify({
         class: 'dataset',
-        id: ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot'],
+        id: [timeDimension, 'Postinumero', 'Talotyyppi', 'Tiedot'],
         size: [
             years.length,
             postalCodes.length,
@@ -39,7 +42,7 @@ function buildJsonStat2(opts: {
             Object.keys(metrics).length,
         ],
         dimension: {
-            Vuosi: {
+            [timeDimension]: {
                 label: 'Year',
                 category: {
                     index: buildIndex(years),
@@ -123,8 +126,11 @@ describe('DatasetTransformer', () => {
             postalCode: '00400',
             buildingType: 'apartment_1r',
             date: new Date('2024-01-01T00:00:00Z'),
+            periodGranularity: 'year',
+            metric: 'sale',
             pricePerSqm: 4668,
             transactionCount: 29,
+            qualityFlag: null,
             sourceName: 'test_source',
         });
 
@@ -168,11 +174,13 @@ describe('DatasetTransformer', () => {
         expect(result.records[0].transactionCount).toBe(29);
 
         // terraced: price null (confidential), count preserved
+        expect(result.records[0]!.qualityFlag).toBeNull();
         expect(result.records[1].pricePerSqm).toBeNull();
         expect(result.records[1].transactionCount).toBe(1);
+        expect(result.records[1]!.qualityFlag).toBe('confidential');
     });
 
-    test('both values null → record is skipped', () => {
+    test('both values suppressed → record kept with its quality flag', () => {
         const data = buildJsonStat2({
             years: ['2024'],
             postalCodes: ['00400'],
@@ -193,6 +201,49 @@ describe('DatasetTransformer', () => {
         );
         const result = transformer.transform();
 
+        expect(result.records).toHaveLength(1);
+        expect(result.records[0]!.pricePerSqm).toBeNull();
+        expect(result.records[0]!.transactionCount).toBeNull();
+        expect(result.records[0]!.qualityFlag).toBe('confidential');
+        expect(result.skipped).toBe(0);
+    });
+
+    test('not applicable price with a nil count → zero sales', () => {
+        const data = buildJsonStat2({
+            years: ['2024'],
+            postalCodes: ['00400'],
+            buildingTypes: { '5': 'Rivitalot' },
+            metrics: DEFAULT_METRICS,
+            values: [null, null],
+            status: { '0': '.', '1': '-' },
+        });
+
+        const mappings: BuildingTypeMapping[] = [
+            { sourceCode: '5', sourceLabel: 'Rivitalot', canonicalCode: 'terraced' },
+        ];
+
+        const result = new DatasetTransformer(makeRawDataset(data), 'test_source', mappings).transform();
+
+        expect(result.records).toHaveLength(1);
+        expect(result.records[0]!.transactionCount).toBe(0);
+        expect(result.records[0]!.qualityFlag).toBe('not_applicable');
+    });
+
+    test('both values null without a status → record is skipped', () => {
+        const data = buildJsonStat2({
+            years: ['2024'],
+            postalCodes: ['00400'],
+            buildingTypes: { '1': 'Yksiöt' },
+            metrics: DEFAULT_METRICS,
+            values: [null, null],
+        });
+
+        const mappings: BuildingTypeMapping[] = [
+            { sourceCode: '1', sourceLabel: 'Yksiöt', canonicalCode: 'apartment_1r' },
+        ];
+
+        const result = new DatasetTransformer(makeRawDataset(data), 'test_source', mappings).transform();
+
         expect(result.records).toHaveLength(0);
         expect(result.skipped).toBe(1);
     });
@@ -336,4 +387,141 @@ describe('DatasetTransformer', () => {
 
         expect(result.buildingTypeMappings).toEqual(mappings);
     });
+
+    test('quarterly periods → first day of the quarter with quarter granularity', () => {
+        const data = buildJsonStat2({
+            timeDimension: 'Vuosineljännes',
+            years: ['2024Q1', '2024Q3'],
+            postalCodes: ['00100'],
+            buildingTypes: { '1': 'Yksiöt' },
+            metrics: DEFAULT_METRICS,
+            values: [5000, 12, 5100, 9],
+        });
+
+        const mappings: BuildingTypeMapping[] = [
+            { sourceCode: '1', sourceLabel: 'Yksiöt', canonicalCode: 'apartment_1r' },
+        ];
+
+        const dimensions: DatasetDimensions = {
+            ...STATFIN_PRICES_BY_POSTAL_CODE.dimensions,
+            time: 'Vuosineljännes',
+        };
+
+        const transformer = new DatasetTransformer(
+            makeRawDataset(data),
+            'test_source',
+            mappings,
+            dimensions
+        );
+        const result = transformer.transform();
+
+        expect(result.records).toHaveLength(2);
+        expect(result.records[0]!.date).toEqual(new Date('2024-01-01T00:00:00Z'));
+        expect(result.records[1]!.date).toEqual(new Date('2024-07-01T00:00:00Z'));
+        expect(result.records[1]!.periodGranularity).toBe('quarter');
+        expect(result.records[1]!.pricePerSqm).toBe(5100);
+    });
+
+    test('dimension ids and metric codes come from the descriptor', () => {
+        // Same layout as the stat.fi table, but with different ids and metric codes
+        const stat = JSON.parse(buildJsonStat2({
+            years: ['2024'],
+            postalCodes: ['00100'],
+            buildingTypes: { '1': 'Yksiöt' },
+            metrics: { count: 'Sales', price: 'Price' },
+            values: [7, 5200],
+        }));
+        stat.id = ['Year', 'Area', 'Type', 'Measure'];
+        stat.dimension = {
+            Year: stat.dimension.Vuosi,
+            Area: stat.dimension.Postinumero,
+            Type: stat.dimension.Talotyyppi,
+            Measure: stat.dimension.Tiedot,
+        };
+
+        const dimensions: DatasetDimensions = {
+            time: 'Year',
+            area: 'Area',
+            buildingType: 'Type',
+            metric: 'Measure',
+            metrics: [
+                { sourceCode: 'price', field: 'pricePerSqm' },
+                { sourceCode: 'count', field: 'transactionCount' },
+            ],
+        };
+
+        const mappings: BuildingTypeMapping[] = [
+            { sourceCode: '1', sourceLabel: 'Yksiöt', canonicalCode: 'apartment_1r' },
+        ];
+
+        const transformer = new DatasetTransformer(
+            makeRawDataset(JSON.stringify(stat)),
+            'other_source',
+            mappings,
+            dimensions
+        );
+        const result = transformer.transform();
+
+        expect(result.records).toHaveLength(1);
+        expect(result.records[0]!.pricePerSqm).toBe(5200);
+        expect(result.records[0]!.transactionCount).toBe(7);
+    });
+
+    test('rent table: fixed single-value dimension is ignored, records are rents', () => {
+        const stat = JSON.parse(buildJsonStat2({
+            years: ['2024'],
+            postalCodes: ['00100'],
+            buildingTypes: { '01': 'Yksiöt', '02': 'Kaksiot' },
+            metrics: { keskivuokra: 'Rent EUR/m2', lkm: 'Number' },
+            values: [31.5, 120, 24.8, 95],
+        }));
+        stat.id = ['Vuosi', 'Postinumero', 'Rahoitusmuoto', 'Huoneluku', 'Tiedot'];
+        stat.size = [1, 1, 1, 2, 2];
+        stat.dimension.Rahoitusmuoto = {
+            label: 'Financing',
+            category: { index: { '1': 0 }, label: { '1': 'Non-subsidised' } },
+        };
+        stat.dimension.Huoneluku = stat.dimension.Talotyyppi;
+        delete stat.dimension.Talotyyppi;
+
+        const transformer = new DatasetTransformer(
+            makeRawDataset(JSON.stringify(stat)),
+            STATFIN_RENTS_BY_POSTAL_CODE.name,
+            STATFIN_RENTS_BY_POSTAL_CODE.buildingTypeMappings,
+            STATFIN_RENTS_BY_POSTAL_CODE.dimensions,
+            STATFIN_RENTS_BY_POSTAL_CODE.priceMetric
+        );
+        const result = transformer.transform();
+
+        expect(result.records).toHaveLength(2);
+        expect(result.records[0]!.metric).toBe('rent');
+        expect(result.records[0]!.buildingType).toBe('apartment_1r');
+        expect(result.records[0]!.pricePerSqm).toBe(31.5);
+        expect(result.records[1]!.buildingType).toBe('apartment_2r');
+        expect(result.records[1]!.transactionCount).toBe(95);
+    });
+
+    test('unpinned extra dimension with several values → error', () => {
+        const stat = JSON.parse(buildJsonStat2({
+            years: ['2024'],
+            postalCodes: ['00100'],
+            buildingTypes: { '1': 'Yksiöt' },
+            metrics: DEFAULT_METRICS,
+            values: [4000, 20, 3000, 5],
+        }));
+        stat.id = ['Vuosi', 'Postinumero', 'Rahoitusmuoto', 'Talotyyppi', 'Tiedot'];
+        stat.size = [1, 1, 2, 1, 2];
+        stat.dimension.Rahoitusmuoto = {
+            label: 'Financing',
+            category: { index: { '1': 0, '2': 1 }, label: { '1': 'Free', '2': 'ARA' } },
+        };
+
+        const transformer = new DatasetTransformer(
+            makeRawDataset(JSON.stringify(stat)),
+            'test_source',
+            STATFIN_BUILDING_TYPE_MAPPINGS
+        );
+
+        expect(() => transformer.transform()).toThrow(/Rahoitusmuoto/);
+    });
 });
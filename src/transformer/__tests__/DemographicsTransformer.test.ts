@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test';
+import { DemographicsTransformer } from '../DemographicsTransformer.ts';
+import { PAAVO_BY_POSTAL_CODE } from '../StatfinDatasets.ts';
+import type { RawDataset } from '../../model/Models.ts';
+
+const INDICATORS = [
+    'he_vakiy', 'he_kika', 'pt_0_14',
+    'he_65_69', 'he_70_74', 'he_75_79', 'he_80_84', 'he_85_',
+    'tr_mtu', 'ra_asunn', 'ra_as_kpa',
+];
+
+/**
+ * Builds a Paavo-shaped json-stat2 dataset: Postinumeroalue × Tiedot × Vuosi.
+ */
+function buildPaavo(postalCodes: string[], years: string[], values: (number | null)[]): RawDataset {
+    const index = (keys: string[]) => Object.fromEntries(keys.map((k, i) => [k, i]));
+    const data = JSON.stringify({
+        class: 'dataset',
+        id: ['Postinumeroalue', 'Tiedot', 'Vuosi'],
+        size: [postalCodes.length, INDICATORS.length, years.length],
+        dimension: {
+            Postinumeroalue: { label: 'Postal code area', category: { index: index(postalCodes) } },
+            Tiedot: { label: 'Information', category: { index: index(INDICATORS) } },
+            Vuosi: { label: 'Year', category: { index: index(years) } },
+        },
+        value: values,
+    });
+    return { format: 'json-stat2', data, metadata: { title: 'Paavo', variables: [] } };
+}
+
+describe('DemographicsTransformer', () => {
+    test('maps indicators to fields and sums the 65+ age groups', () => {
+        const raw = buildPaavo(['00100'], ['2023'], [
+            18000, 41.2, 1500,
+            600, 500, 400, 300, 200,
+            38000, 11000, 55.5,
+        ]);
+
+        const result = new DemographicsTransformer(raw, PAAVO_BY_POSTAL_CODE).transform();
+
+        expect(result.sourceName).toBe(PAAVO_BY_POSTAL_CODE.name);
+        expect(result.records).toEqual([{
+            postalCode: '00100',
+            year: 2023,
+            population: 18000,
+            averageAge: 41.2,
+            population0to14: 1500,
+            population65Plus: 2000,
+            medianHouseholdIncome: 38000,
+            dwellings: 11000,
+            averageDwellingSize: 55.5,
+        }]);
+    });
+
+    test('a missing age group leaves the sum null instead of undercounting', () => {
+        const raw = buildPaavo(['00100'], ['2023'], [
+            18000, 41.2, 1500,
+            600, null, 400, 300, 200,
+            38000, 11000, 55.5,
+        ]);
+
+        const [record] = new DemographicsTransformer(raw, PAAVO_BY_POSTAL_CODE).transform().records;
+
+        expect(record!.population65Plus).toBeNull();
+        expect(record!.population).toBe(18000);
+    });
+
+    test('whole-country row is ignored and empty cells are skipped', () => {
+        // Layout is postal × indicator × year, so each indicator holds [2022, 2023]
+        const country = INDICATORS.flatMap(() => [1, 1]);
+        const postal = INDICATORS.flatMap((_, i) => [null, 100 + i]);   // no 2022 data
+        const raw = buildPaavo(['SSS', '00100'], ['2022', '2023'], [...country, ...postal]);
+
+        const result = new DemographicsTransformer(raw, PAAVO_BY_POSTAL_CODE).transform();
+
+        expect(result.records.map((r) => [r.postalCode, r.year])).toEqual([['00100', 2023]]);
+        expect(result.skipped).toBe(1);
+        expect(result.records[0]!.population).toBe(100);
+    });
+});
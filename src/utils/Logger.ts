@@ -20,6 +20,7 @@ const timestamp = () => {
 };
 
 //central logger to be used in all packages
+//logs go to stderr so CLI output (exports, previews) can be piped
 const centralLogger = pino({
   //timestamp: () => `,"time":"${new Date().toISOString().replace('T', ' ').slice(0, 19)}"`,
   timestamp,
@@ -33,9 +34,10 @@ const centralLogger = pino({
     options: {
       translateTime: 'SYS:yyyy-mm-dd HH:MM:ss',
       colorize: true,
+      destination: 2,
     }
   } : undefined,
-});
+}, process.env.NODE_ENV === 'development' ? undefined : pino.destination(2));
 
 export function createLogger(context?: string): Logger {
   return context ? centralLogger.child({ context }) : centralLogger;
@@ -0,0 +1,59 @@
+import type { PeriodGranularity } from '../model/Models.ts';
+
+export interface Period {
+    granularity: PeriodGranularity;
+    date: Date;             // First day of the period (UTC)
+}
+
+/**
+ * Parses a PxWeb time value into its granularity and start date:
+ *   '2024'    → year,    2024-01-01
+ *   '2024Q3'  → quarter, 2024-07-01
+ *   '2024M07' → month,   2024-07-01
+ */
+export function parsePeriod(code: string): Period {
+    const match = code.trim().match(/^(\d{4})(?:([QM])(\d{1,2}))?$/);
+    if (!match) {
+        throw new Error(`Unrecognised period '${code}'`);
+    }
+
+    const year = parseInt(match[1]!, 10);
+    if (!match[2]) {
+        return { granularity: 'year', date: new Date(Date.UTC(year, 0, 1)) };
+    }
+
+    const n = parseInt(match[3]!, 10);
+    if (match[2] === 'Q') {
+        if (n < 1 || n > 4) throw new Error(`Invalid quarter in period '${code}'`);
+        return { granularity: 'quarter', date: new Date(Date.UTC(year, (n - 1) * 3, 1)) };
+    }
+
+    if (n < 1 || n > 12) throw new Error(`Invalid month in period '${code}'`);
+    return { granularity: 'month', date: new Date(Date.UTC(year, n - 1, 1)) };
+}
+
+/**
+ * Formats a period start date back to its PxWeb code (inverse of parsePeriod).
+ */
+export function formatPeriod(date: Date, granularity: PeriodGranularity): string {
+    const year = String(date.getUTCFullYear());
+    switch (granularity) {
+        case 'year':
+            return year;
+        case 'quarter':
+            return `${year}Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+        case 'month':
+            return `${year}M${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+    }
+}
+
+/**
+ * The year a period code belongs to ('2024Q3' → '2024').
+ */
+export function periodYear(code: string): string {
+    return code.slice(0, 4);
+}
+
+export function isPeriodGranularity(value: string): value is PeriodGranularity {
+    return value === 'year' || value === 'quarter' || value === 'month';
+}
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { parsePeriod, formatPeriod } from '../Period.ts';
+
+describe('parsePeriod', () => {
+    test('year', () => {
+        expect(parsePeriod('2024')).toEqual({ granularity: 'year', date: new Date('2024-01-01T00:00:00Z') });
+    });
+
+    test('quarter maps to the first day of the quarter', () => {
+        expect(parsePeriod('2024Q1').date).toEqual(new Date('2024-01-01T00:00:00Z'));
+        expect(parsePeriod('2024Q3')).toEqual({ granularity: 'quarter', date: new Date('2024-07-01T00:00:00Z') });
+        expect(parsePeriod('2024Q4').date).toEqual(new Date('2024-10-01T00:00:00Z'));
+    });
+
+    test('month', () => {
+        expect(parsePeriod('2024M07')).toEqual({ granularity: 'month', date: new Date('2024-07-01T00:00:00Z') });
+    });
+
+    test('rejects malformed periods', () => {
+        expect(() => parsePeriod('2024Q5')).toThrow();
+        expect(() => parsePeriod('2024M13')).toThrow();
+        expect(() => parsePeriod('24Q1')).toThrow();
+    });
+});
+
+describe('formatPeriod', () => {
+    test('round-trips parsePeriod', () => {
+        for (const code of ['2024', '2024Q2', '2024Q4', '2024M01', '2024M12']) {
+            const { date, granularity } = parsePeriod(code);
+            expect(formatPeriod(date, granularity)).toBe(code);
+        }
+    });
+});
@@ -0,0 +1,162 @@
+import { priceRecordKey } from '../db/PriceChangeClassifier.ts';
+import type {
+    PriceRecord,
+    TransformResult,
+    ValidationConfig,
+    ValidationFinding,
+    ValidationReport,
+    ValidationRuleName,
+} from '../model/Models.ts';
+
+/** Findings kept per rule in a report; the rest are only counted */
+export const MAX_FINDINGS_PER_RULE = 50;
+
+/**
+ * What the rules compare a result against, read from the database before
+ * storing. Rules whose context is missing (dry run without a database)
+ * are skipped.
+ */
+export interface ValidationContext {
+    /** Codes in postal_code among the incoming ones; null if not checked */
+    knownPostalCodes: Set<string> | null;
+    /** Stored prices of the source a year before incoming records, keyed by priceRecordKey */
+    previousPrices: Map<string, { pricePerSqm: number | null; transactionCount: number | null }>;
+    /** Last complete run of the same source and region */
+    previousRun: { id: number; recordsPerPeriod: number } | null;
+    /** Periods (years) this run asked for */
+    requestedPeriods: number;
+}
+
+type Finding = Omit<ValidationFinding, 'rule' | 'severity'>;
+type Rule = (result: TransformResult, context: ValidationContext, config: ValidationConfig) => Finding[];
+
+const RULES: Record<ValidationRuleName, Rule> = {
+    priceBounds: checkPriceBounds,
+    transactionCount: checkTransactionCounts,
+    yoyChange: checkYoyChanges,
+    unknownPostalCode: checkUnknownPostalCodes,
+    recordCountDrop: checkRecordCountDrop,
+};
+
+/**
+ * Runs every enabled rule over a transform result. The report fails if any
+ * rule with severity 'error' found something; the caller then must not
+ * store the result.
+ */
+export function validateTransformResult(
+    result: TransformResult,
+    context: ValidationContext,
+    config: ValidationConfig
+): ValidationReport {
+    const report: ValidationReport = { passed: true, errors: 0, warnings: 0, rules: [], findings: [] };
+
+    for (const [rule, check] of Object.entries(RULES) as Array<[ValidationRuleName, Rule]>) {
+        const severity = config[rule].severity;
+        if (severity === 'off') continue;
+
+        const findings = check(result, context, config);
+        report.rules.push({ rule, severity, findings: findings.length });
+        report.findings.push(
+            ...findings.slice(0, MAX_FINDINGS_PER_RULE).map((f) => ({ rule, severity, ...f }))
+        );
+
+        if (severity === 'error') report.errors += findings.length;
+        else report.warnings += findings.length;
+    }
+
+    report.passed = report.errors === 0;
+    return report;
+}
+
+/**
+ * Empty context for validating without a database.
+ */
+export function emptyValidationContext(requestedPeriods: number): ValidationContext {
+    return { knownPostalCodes: null, previousPrices: new Map(), previousRun: null, requestedPeriods };
+}
+
+/**
+ * The same period a year earlier, as YYYY-MM-DD.
+ */
+export function previousYearDate(date: Date): string {
+    const prev = new Date(date);
+    prev.setUTCFullYear(prev.getUTCFullYear() - 1);
+    return prev.toISOString().slice(0, 10);
+}
+
+function checkPriceBounds(result: TransformResult, _context: ValidationContext, config: ValidationConfig): Finding[] {
+    return result.records.flatMap((r) => {
+        if (r.pricePerSqm === null) return [];
+        const { min, max } = config.priceBounds[r.metric][r.buildingType];
+        if (r.pricePerSqm >= min && r.pricePerSqm <= max) return [];
+        return [{
+            ...locate(r),
+            message: `${describe(r)}: price ${r.pricePerSqm} outside ${min}–${max}`,
+        }];
+    });
+}
+
+function checkTransactionCounts(result: TransformResult): Finding[] {
+    return result.records
+        .filter((r) => r.transactionCount !== null && r.transactionCount < 0)
+        .map((r) => ({ ...locate(r), message: `${describe(r)}: negative transaction count ${r.transactionCount}` }));
+}
+
+function checkYoyChanges(result: TransformResult, context: ValidationContext, config: ValidationConfig): Finding[] {
+    const { maxChangePercent, minTransactions } = config.yoyChange;
+
+    // A year earlier may be in this result too (multi-year fetches) or only stored
+    const incoming = new Map(result.records.map((r) => [keyOf(r, r.date.toISOString().slice(0, 10)), r]));
+
+    return result.records.flatMap((r) => {
+        if (r.pricePerSqm === null) return [];
+        if (r.transactionCount !== null && r.transactionCount < minTransactions) return [];
+
+        const prevKey = keyOf(r, previousYearDate(r.date));
+        const previous = incoming.get(prevKey)?.pricePerSqm ?? context.previousPrices.get(prevKey)?.pricePerSqm ?? null;
+        if (previous === null || previous <= 0) return [];
+
+        const change = (r.pricePerSqm - previous) / previous * 100;
+        if (Math.abs(change) <= maxChangePercent) return [];
+        return [{
+            ...locate(r),
+            message: `${describe(r)}: ${change > 0 ? '+' : ''}${change.toFixed(1)}% from ${previous} a year earlier`,
+        }];
+    });
+}
+
+function checkUnknownPostalCodes(result: TransformResult, context: ValidationContext): Finding[] {
+    const known = context.knownPostalCodes;
+    if (!known) return [];
+
+    const unknown = [...new Set(result.records.map((r) => r.postalCode))].filter((code) => !known.has(code)).sort();
+    return unknown.map((postalCode) => ({
+        postalCode,
+        message: `Postal code ${postalCode} is not in postal_code; it will be added without a name`,
+    }));
+}
+
+function checkRecordCountDrop(result: TransformResult, context: ValidationContext, config: ValidationConfig): Finding[] {
+    const previous = context.previousRun;
+    if (!previous || previous.recordsPerPeriod === 0 || context.requestedPeriods === 0) return [];
+
+    const recordsPerPeriod = result.records.length / context.requestedPeriods;
+    const drop = (1 - recordsPerPeriod / previous.recordsPerPeriod) * 100;
+    if (drop <= config.recordCountDrop.maxDropPercent) return [];
+    return [{
+        message: `${Math.round(recordsPerPeriod)} records per period, ${drop.toFixed(0)}% fewer than ` +
+            `${Math.round(previous.recordsPerPeriod)} in run ${previous.id}`,
+    }];
+}
+
+function keyOf(r: PriceRecord, date: string): string {
+    return priceRecordKey(r.postalCode, r.buildingType, date);
+}
+
+function locate(r: PriceRecord): Pick<ValidationFinding, 'postalCode' | 'buildingType' | 'date'> {
+    return { postalCode: r.postalCode, buildingType: r.buildingType, date: r.date.toISOString().slice(0, 10) };
+}
+
+function describe(r: PriceRecord): string {
+    return `${r.postalCode} ${r.buildingType} ${r.date.toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'bun:test';
+import { emptyValidationContext, validateTransformResult, MAX_FINDINGS_PER_RULE } from '../ValidationRules.ts';
+import { DEFAULT_VALIDATION_CONFIG } from '../../config/validation.ts';
+import type { ValidationContext } from '../ValidationRules.ts';
+import type { BuildingTypeCode, PriceRecord, TransformResult } from '../../model/Models.ts';
+
+function record(
+    postalCode: string,
+    year: number,
+    pricePerSqm: number | null,
+    transactionCount: number | null = 20,
+    buildingType: BuildingTypeCode = 'all'
+): PriceRecord {
+    return {
+        postalCode,
+        buildingType,
+        date: new Date(Date.UTC(year, 0, 1)),
+        periodGranularity: 'year',
+        metric: 'sale',
+        pricePerSqm,
+        transactionCount,
+        qualityFlag: null,
+        sourceName: 'test',
+    };
+}
+
+function result(records: PriceRecord[]): TransformResult {
+    return { records, skipped: 0, sourceName: 'test', buildingTypeMappings: [] };
+}
+
+function context(overrides: Partial<ValidationContext> = {}): ValidationContext {
+    return { ...emptyValidationContext(1), ...overrides };
+}
+
+describe('validateTransformResult', () => {
+    test('plausible records pass without findings', () => {
+        const report = validateTransformResult(
+            result([record('00100', 2023, 7000), record('00100', 2024, 7300)]),
+            context({ knownPostalCodes: new Set(['00100']) }),
+            DEFAULT_VALIDATION_CONFIG
+        );
+
+        expect(report.passed).toBe(true);
+        expect(report.findings).toEqual([]);
+        expect(report.rules.map((r) => r.rule)).toEqual(['priceBounds', 'transactionCount', 'yoyChange', 'unknownPostalCode', 'recordCountDrop']);
+    });
+
+    test('a price outside the bounds of its building type is an error', () => {
+        const report = validateTransformResult(
+            result([record('00100', 2024, 18000, 20, 'terraced'), record('00200', 2024, 18000, 20, 'apartment_1r')]),
+            context(),
+            DEFAULT_VALIDATION_CONFIG
+        );
+
+        expect(report.passed).toBe(false);
+        expect(report.errors).toBe(1);
+        expect(report.findings[0]).toMatchObject({ rule: 'priceBounds', severity: 'error', postalCode: '00100', buildingType: 'terraced' });
+    });
+
+    test('a negative transaction count is an error', () => {
+        const report = validateTransformResult(result([record('00100', 2024, 5000, -3)]), context(), DEFAULT_VALIDATION_CONFIG);
+
+        expect(report.passed).toBe(false);
+        expect(report.findings.map((f) => f.rule)).toEqual(['transactionCount']);
+    });
+
+    test('year-over-year jumps are compared with incoming and stored prices', () => {
+        const report = validateTransformResult(
+            result([record('00100', 2024, 9000), record('00200', 2023, 4000), record('00200', 2024, 8000), record('00300', 2024, 9000, 3)]),
+            context({
+                previousPrices: new Map([
+                    ['00100|all|2023-01-01', { pricePerSqm: 6000, transactionCount: 30 }],
+                    ['00300|all|2023-01-01', { pricePerSqm: 3000, transactionCount: 4 }],
+                ]),
+            }),
+            DEFAULT_VALIDATION_CONFIG
+        );
+
+        // 00300 has too few sales to judge
+        expect(report.passed).toBe(true);
+        expect(report.findings.filter((f) => f.rule === 'yoyChange').map((f) => f.postalCode)).toEqual(['00100', '00200']);
+        expect(report.findings[0]!.message).toContain('+50.0%');
+    });
+
+    test('unknown postal codes are warnings', () => {
+        const report = validateTransformResult(
+            result([record('00100', 2024, 5000), record('99999', 2024, 5000)]),
+            context({ knownPostalCodes: new Set(['00100']) }),
+            DEFAULT_VALIDATION_CONFIG
+        );
+
+        expect(report.passed).toBe(true);
+        expect(report.warnings).toBe(1);
+        expect(report.findings[0]).toMatchObject({ rule: 'unknownPostalCode', postalCode: '99999' });
+    });
+
+    test('a drop in records per period from the previous run is reported', () => {
+        const records = [record('00100', 2024, 5000), record('00200', 2024, 5000)];
+
+        const dropped = validateTransformResult(result(records), context({ previousRun: { id: 7, recordsPerPeriod: 10 } }), DEFAULT_VALIDATION_CONFIG);
+        expect(dropped.findings).toHaveLength(1);
+        expect(dropped.findings[0]!.message).toContain('80% fewer than 10 in run 7');
+
+        const similar = validateTransformResult(result(records), context({ previousRun: { id: 7, recordsPerPeriod: 3 } }), DEFAULT_VALIDATION_CONFIG);
+        expect(similar.findings).toHaveLength(0);
+    });
+
+    test('severities are configurable and rules can be turned off', () => {
+        const records = [record('00100', 2024, 50000)];
+        const config = {
+            ...DEFAULT_VALIDATION_CONFIG,
+            priceBounds: { ...DEFAULT_VALIDATION_CONFIG.priceBounds, severity: 'warning' as const },
+            recordCountDrop: { ...DEFAULT_VALIDATION_CONFIG.recordCountDrop, severity: 'off' as const },
+        };
+
+        const report = validateTransformResult(result(records), context(), config);
+
+        expect(report.passed).toBe(true);
+        expect(report.warnings).toBe(1);
+        expect(report.rules.map((r) => r.rule)).not.toContain('recordCountDrop');
+    });
+
+    test('findings are capped per rule but all are counted', () => {
+        const records = Array.from({ length: MAX_FINDINGS_PER_RULE + 5 }, (_, i) => record(String(i).padStart(5, '0'), 2024, 1));
+
+        const report = validateTransformResult(result(records), context(), DEFAULT_VALIDATION_CONFIG);
+
+        expect(report.errors).toBe(MAX_FINDINGS_PER_RULE + 5);
+        expect(report.findings).toHaveLength(MAX_FINDINGS_PER_RULE);
+        expect(report.rules.find((r) => r.rule === 'priceBounds')!.findings).toBe(MAX_FINDINGS_PER_RULE + 5);
+    });
+});